@@ -1,29 +1,104 @@
 
-import React, { useState, Suspense } from 'react';
+import React, { useState, useEffect, useMemo, Suspense } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { EffectComposer, Bloom, Vignette } from '@react-three/postprocessing';
-import { Loader, Stats } from '@react-three/drei';
-import { Settings, Camera, Upload, X, Activity, Sun, Gauge, Film, Snowflake, Flame, Type } from 'lucide-react';
+import { Loader, PerformanceMonitor, Stats } from '@react-three/drei';
+import { Settings, Camera, Upload, X, Activity, Sun, Gauge, Film, Palette, Pencil, RotateCcw, Trash2, Type, ScanFace, Users, MonitorCog, TreePine, WandSparkles, ImageUp } from 'lucide-react';
 import TreeScene from './components/TreeScene';
+import ThemeEditor from './components/ThemeEditor';
 import VisionController from './components/VisionController';
-import { TreeSettings, ThemeMode } from './types';
+import { TreeSettings, Theme, HandOwnership, QualityMode, QualityTier, TreeProfileId, MorphTarget } from './types';
+import { createIntentReader, useInputStore } from './store';
+import { smoothingFromSettings } from './vision/oneEuroFilter';
+import { createQualityGovernor, DEFAULT_AUTO_TIER, QUALITY_PROFILES, qualityFpsBounds } from './quality';
+import { DEFAULT_TREE_SPLINE } from './treeProfiles';
+import { DEFAULT_THEME_ID, findTheme, isBuiltInTheme } from './themes';
+import { useThemes } from './hooks/useThemes';
+import { usePhotoLibrary } from './hooks/usePhotoLibrary';
+import { loadSession, saveSession } from './persistence';
 import * as THREE from 'three';
 
+// Who drives explode / assemble / summon when several hands are in view
+const OWNERSHIP_OPTIONS: { value: HandOwnership, label: string }[] = [
+  { value: 'first-come', label: '先到先得' },
+  { value: 'largest', label: '最近一人' },
+  { value: 'majority', label: '多数投票' },
+];
+
+const TREE_PROFILE_OPTIONS: { value: TreeProfileId, label: string }[] = [
+  { value: 'classic', label: '经典' },
+  { value: 'tiered', label: '层叠' },
+  { value: 'cypress', label: '柏树' },
+  { value: 'spiral', label: '螺旋' },
+  { value: 'spline', label: '曲线' },
+];
+
+// What the foliage re-forms into on a morph
+type MorphMode = 'greeting' | 'logo' | 'year';
+const MORPH_OPTIONS: { value: MorphMode, label: string }[] = [
+  { value: 'greeting', label: '祝福语' },
+  { value: 'logo', label: '标志' },
+  { value: 'year', label: '年份' },
+];
+const DEFAULT_MORPH_GREETING = 'MERRY XMAS';
+
+const QUALITY_LABELS: Record<QualityTier, string> = { low: '低', medium: '中', high: '高', ultra: '极致' };
+const QUALITY_OPTIONS: { value: QualityMode, label: string }[] = [
+  { value: 'auto', label: '自动' },
+  ...(Object.keys(QUALITY_LABELS) as QualityTier[]).map(tier => ({ value: tier, label: QUALITY_LABELS[tier] })),
+];
+
+// Panel colours follow the theme's UI accent through CSS variables set on the root
+const ACCENT_CLASSES = {
+  selected: 'bg-[color:var(--ui-accent)] text-black border-[color:var(--ui-accent)]',
+  slider: 'accent-[color:var(--ui-accent)]',
+  input: 'border-[color:var(--ui-accent)] text-[color:var(--ui-accent)] placeholder:text-[color:var(--ui-accent-soft)]',
+  outline: 'border-[color:var(--ui-accent)] text-[color:var(--ui-accent)] hover:bg-[color:var(--ui-accent)] hover:text-black',
+  soft: 'border-[color:var(--ui-accent-soft)] text-[color:var(--ui-accent)] hover:bg-[color:var(--ui-accent-faint)]',
+};
+
+// Defaults tuned for "Trump-style" Luxury (Deep Emerald & Gold); also what 恢复默认 restores
+const DEFAULT_SETTINGS: TreeSettings = {
+  theme: DEFAULT_THEME_ID, // Royal emerald & gold
+  bloomStrength: 1.5,   // Movie-grade glow
+  bloomThreshold: 0.6,  // Only glow the really bright stuff
+  rotationSpeed: 0.0,   // Manual control takes over
+  gestureSensitivity: 1.5, // Default high sensitivity
+  smoothingCutoff: 0.8, // Steady when still
+  smoothingBeta: 4.0, // Quick catch-up when the hand moves fast
+  parallaxMode: 'hand', // Head tracking is opt-in (extra model download)
+  handOwnership: 'first-come', // First hand in view keeps the gestures
+  quality: 'auto', // Frame time picks the tier
+  particleBrightness: 1.1, // Default sparkle intensity
+  treeProfile: 'classic', // Single power-curve cone
+  treeHeight: 18,
+  treeRadius: 7.5,
+  treeSpline: DEFAULT_TREE_SPLINE
+};
+
 const App: React.FC = () => {
-  // State - Defaults tuned for "Trump-style" Luxury (Deep Emerald & Gold)
-  const [settings, setSettings] = useState<TreeSettings>({
-    theme: 'warm',
-    treeColor: '#02260e', // Deep Emerald
-    lightColor: '#FFD700', // Rich Gold
-    bloomStrength: 1.5,   // Movie-grade glow
-    bloomThreshold: 0.6,  // Only glow the really bright stuff
-    rotationSpeed: 0.0,   // Manual control takes over
-    gestureSensitivity: 1.5, // Default high sensitivity
-    particleBrightness: 1.1 // Default sparkle intensity
-  });
-
-  const [photos, setPhotos] = useState<string[]>([]);
-  const [customText, setCustomText] = useState("");
+  // Settings and the greeting come back from the last session
+  const [savedSession] = useState(() => loadSession({ settings: DEFAULT_SETTINGS, customText: '' }));
+  const [settings, setSettings] = useState<TreeSettings>(savedSession.settings);
+
+  // Theme registry: built-ins plus the user's own, editable and shared as JSON
+  const { themes, addTheme, updateTheme, removeTheme } = useThemes();
+  const theme = findTheme(themes, settings.theme);
+  const [showThemeEditor, setShowThemeEditor] = useState(false);
+
+  const { photos, addPhotos, clearPhotos } = usePhotoLibrary();
+  const [customText, setCustomText] = useState(savedSession.customText);
+  const customWords = useMemo(() => customText.split(',').map(s => s.trim()).filter(s => s.length > 0), [customText]);
+
+  // Particle morph: first greeting word, an uploaded logo, or next year's number
+  const [morphMode, setMorphMode] = useState<MorphMode>('greeting');
+  const [morphYear, setMorphYear] = useState(String(new Date().getFullYear() + 1));
+  const [morphLogo, setMorphLogo] = useState<HTMLImageElement | null>(null);
+  const morphTarget = useMemo<MorphTarget | null>(() => {
+      if (morphMode === 'logo') return morphLogo && { kind: 'image', image: morphLogo };
+      if (morphMode === 'year') return { kind: 'text', text: morphYear };
+      return { kind: 'text', text: customWords[0] ?? DEFAULT_MORPH_GREETING };
+  }, [morphMode, morphYear, morphLogo, customWords]);
   
   const [showUI, setShowUI] = useState(true);
   const [showCamera, setShowCamera] = useState(false);
@@ -33,42 +108,106 @@ const App: React.FC = () => {
   // Interactive Controls
   const [manualExplode, setManualExplode] = useState(0); // 0 to 1
 
+  const handSmoothing = useMemo(
+      () => smoothingFromSettings(settings.gestureSensitivity, settings.smoothingCutoff, settings.smoothingBeta),
+      [settings.gestureSensitivity, settings.smoothingCutoff, settings.smoothingBeta]
+  );
+
+  // Render budget: measured frame time steps the tier unless one is pinned in the panel
+  const [autoTier, setAutoTier] = useState<QualityTier>(DEFAULT_AUTO_TIER);
+  const qualityGovernor = useMemo(() => createQualityGovernor(DEFAULT_AUTO_TIER), []);
+  const qualityTier = settings.quality === 'auto' ? autoTier : settings.quality;
+  const quality = QUALITY_PROFILES[qualityTier];
+
+  const toggleGalleryMode = () => setGalleryMode(prev => !prev);
+
+  // Explode for gallery, reassemble when leaving it
+  useEffect(() => {
+      setManualExplode(galleryMode ? 1.0 : 0.0);
+      useInputStore.getState().setGalleryMode(galleryMode);
+  }, [galleryMode]);
+
+  // The slider is one more explode source, next to the hand and the keyboard
+  useEffect(() => {
+      useInputStore.getState().setExplodeTarget('ui', manualExplode);
+  }, [manualExplode]);
+
+  // Toggle gallery from any device (trained gesture, G key)
+  useEffect(() => {
+      const readIntents = createIntentReader();
+      return useInputStore.subscribe(() => {
+          if (readIntents().some(intent => intent.type === 'toggleGallery')) toggleGalleryMode();
+      });
+  }, []);
+
   // Handle Photo Upload
   const handlePhotoUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files && event.target.files.length > 0) {
-      const newPhotos = Array.from(event.target.files).map(file => URL.createObjectURL(file as unknown as Blob));
-      setPhotos(prev => [...prev, ...newPhotos]);
+      addPhotos(Array.from(event.target.files));
     }
+    event.target.value = ''; // Same files can be picked again after a clear
   };
 
-  const toggleTheme = () => {
-      setSettings(prev => {
-          const isWarm = prev.theme === 'warm';
-          return {
-              ...prev,
-              theme: isWarm ? 'cool' : 'warm',
-              treeColor: isWarm ? '#0f172a' : '#02260e', // Midnight Blue vs Emerald
-              lightColor: isWarm ? '#00ffff' : '#FFD700', // Cyan vs Gold
-          };
-      });
+  // Every change is saved, so a reload (or a crash) picks up where the show left off
+  useEffect(() => {
+      saveSession({ settings, customText });
+  }, [settings, customText]);
+
+  // Photos stay; they have their own clear button
+  const resetToDefaults = () => {
+    if (!window.confirm('恢复全部设置为默认值？照片将保留。')) return;
+    setSettings(DEFAULT_SETTINGS);
+    setCustomText('');
+  };
+
+  const handleClearPhotos = () => {
+    if (window.confirm(`删除已保存的 ${photos.length} 张照片？`)) clearPhotos();
+  };
+
+  // Logo for the morph; transparent PNGs work best since only opaque pixels are sampled
+  const handleLogoUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const image = new window.Image();
+    image.onload = () => {
+      URL.revokeObjectURL(image.src); // Decoded; the URL isn't needed any more
+      setMorphLogo(image);
+      setMorphMode('logo');
+    };
+    image.src = URL.createObjectURL(file);
+  };
+
+  const nextTheme = themes[(themes.indexOf(theme) + 1) % themes.length];
+  const selectTheme = (id: string) => setSettings(prev => ({ ...prev, theme: id }));
+
+  const duplicateTheme = () => selectTheme(addTheme({ ...theme, name: `${theme.name} 副本` }).id);
+  const importTheme = (imported: Theme) => selectTheme(addTheme(imported).id);
+  const deleteTheme = () => {
+      removeTheme(theme.id);
+      selectTheme(DEFAULT_THEME_ID);
   };
 
   return (
-    <div className="relative w-full h-screen bg-[#000] text-white overflow-hidden font-serif">
+    <div
+      className="relative w-full h-screen bg-[#000] text-white overflow-hidden font-serif"
+      style={{
+          '--ui-accent': theme.ui.accent,
+          '--ui-accent-soft': `color-mix(in srgb, ${theme.ui.accent} 35%, transparent)`,
+          '--ui-accent-faint': `color-mix(in srgb, ${theme.ui.accent} 10%, transparent)`,
+      } as React.CSSProperties}
+    >
       {/* Background Radial Gradient for Depth - Dynamic based on Theme */}
       <div 
         className="absolute inset-0 z-0 pointer-events-none transition-colors duration-1000 ease-in-out"
         style={{
-            background: settings.theme === 'warm' 
-                ? 'radial-gradient(circle at center, #1a1a1a 0%, #000000 100%)'
-                : 'radial-gradient(circle at center, #0f172a 0%, #000000 100%)'
+            background: `radial-gradient(circle at center, ${theme.palette.background} 0%, #000000 100%)`
         }}
       />
 
       {/* 3D Scene */}
       <div className="absolute inset-0 z-0">
         <Canvas
-          dpr={[1, 2]} // Handle high DPI
+          dpr={[Math.min(1, quality.maxDpr), quality.maxDpr]} // Handle high DPI, capped per quality tier
           gl={{ 
             antialias: false, 
             powerPreference: 'high-performance',
@@ -79,15 +218,24 @@ const App: React.FC = () => {
           camera={{ position: [0, 0, 24], fov: 45 }}
         >
           {showDebug && <Stats />}
+          {settings.quality === 'auto' && (
+            <PerformanceMonitor
+              bounds={qualityFpsBounds}
+              onIncline={() => setAutoTier(qualityGovernor.incline())}
+              onDecline={() => setAutoTier(qualityGovernor.decline())}
+            />
+          )}
           
           <Suspense fallback={null}>
             <TreeScene 
-              key={settings.theme} // Force remount on theme change to rebuild buffers cleanly
+              key={theme.id} // Force remount on theme change to rebuild buffers cleanly
               settings={settings} 
+              theme={theme}
               photos={photos} 
-              manualExplodeFactor={manualExplode}
               isGalleryMode={galleryMode}
-              customWords={customText.split(',').map(s => s.trim()).filter(s => s.length > 0)}
+              customWords={customWords}
+              quality={quality}
+              morphTarget={morphTarget}
             />
           </Suspense>
 
@@ -97,7 +245,7 @@ const App: React.FC = () => {
               mipmapBlur 
               intensity={settings.bloomStrength} 
               radius={0.6}
-              levels={9}
+              levels={quality.bloomLevels}
             />
             <Vignette eskil={false} offset={0.2} darkness={0.7} />
           </EffectComposer>
@@ -112,7 +260,7 @@ const App: React.FC = () => {
       />
 
       {/* Vision Controller (New Feature) */}
-      <VisionController active={showCamera && !galleryMode} />
+      <VisionController active={showCamera && !galleryMode} smoothing={handSmoothing} headTracking={settings.parallaxMode === 'head'} ownership={settings.handOwnership} />
 
       {/* Main UI */}
       <div className={`absolute inset-0 z-10 pointer-events-none transition-opacity duration-700 ${showUI ? 'opacity-100' : 'opacity-0'}`}>
@@ -124,23 +272,18 @@ const App: React.FC = () => {
               <Settings size={12} /> 系统设置
             </h2>
             <div className="flex gap-2">
-               {/* Theme Toggle */}
+               {/* Theme Cycle */}
                <button 
-                  onClick={toggleTheme}
-                  className={`p-2 transition-all duration-500 rounded-sm border ${settings.theme === 'warm' ? 'border-amber-500/20 text-amber-500 hover:bg-amber-500/10' : 'border-cyan-500/20 text-cyan-400 hover:bg-cyan-500/10'}`}
-                  title={settings.theme === 'warm' ? "切换至极地钻光" : "切换至皇家金绿"}
+                  onClick={() => selectTheme(nextTheme.id)}
+                  className={`p-2 transition-all duration-500 rounded-sm border ${ACCENT_CLASSES.soft}`}
+                  title={`切换至${nextTheme.name}`}
                 >
-                  {settings.theme === 'warm' ? <Flame size={14} /> : <Snowflake size={14} />}
+                  <Palette size={14} />
                </button>
 
                {/* Gallery Mode Toggle */}
                <button 
-                  onClick={() => {
-                      const next = !galleryMode;
-                      setGalleryMode(next);
-                      if (next) setManualExplode(1.0); // Explode for gallery
-                      else setManualExplode(0.0);
-                  }}
+                  onClick={toggleGalleryMode}
                   className={`p-2 transition-all duration-300 rounded-sm border border-amber-500/20 ${galleryMode ? 'bg-amber-500 text-black shadow-[0_0_15px_rgba(255,160,0,0.5)]' : 'text-amber-500 hover:bg-amber-500/10'}`}
                   title="一键艺术轮播"
                 >
@@ -166,6 +309,34 @@ const App: React.FC = () => {
           </div>
 
           <div className="space-y-6">
+
+            {/* Theme Registry */}
+            <div>
+               <div className="flex justify-between text-[10px] uppercase tracking-widest text-amber-100/50 mb-2">
+                 <span className="flex items-center gap-2"><Palette size={10} /> 主题</span>
+                 <button
+                    onClick={() => setShowThemeEditor(!showThemeEditor)}
+                    className={`flex items-center gap-1 transition-colors ${showThemeEditor ? 'text-[color:var(--ui-accent)]' : 'hover:text-white'}`}
+                    title="编辑 / 导入 / 导出主题"
+                 >
+                   <Pencil size={10} /> 编辑
+                 </button>
+               </div>
+               <div className="grid grid-cols-4 gap-2">
+                 {themes.map(({ id, name }) => (
+                   <button
+                      key={id}
+                      onClick={() => selectTheme(id)}
+                      className={`py-1 px-1 text-[10px] tracking-widest rounded-sm border transition-colors truncate ${theme.id === id
+                        ? ACCENT_CLASSES.selected
+                        : 'border-white/20 text-amber-100/50 hover:bg-white/10'}`}
+                      title={name}
+                   >
+                     {name}
+                   </button>
+                 ))}
+               </div>
+            </div>
             
             {/* Custom Text Input */}
             <div className={galleryMode ? 'opacity-30 pointer-events-none' : ''}>
@@ -177,10 +348,118 @@ const App: React.FC = () => {
                   value={customText}
                   placeholder="JOY, LOVE, 2025"
                   onChange={(e) => setCustomText(e.target.value)}
-                  className={`w-full bg-white/10 border-b-2 ${settings.theme === 'warm' ? 'border-amber-500 text-amber-400 placeholder-amber-500/30' : 'border-cyan-500 text-cyan-300 placeholder-cyan-500/30'} text-sm py-2 px-2 focus:outline-none focus:bg-white/20 transition-all font-bold tracking-widest rounded-t-sm`}
+                  className={`w-full bg-white/10 border-b-2 ${ACCENT_CLASSES.input} text-sm py-2 px-2 focus:outline-none focus:bg-white/20 transition-all font-bold tracking-widest rounded-t-sm`}
                />
             </div>
 
+            {/* Particle Morph */}
+            <div className={galleryMode ? 'opacity-30 pointer-events-none' : ''}>
+               <div className="flex justify-between text-[10px] uppercase tracking-widest text-amber-100/50 mb-2">
+                 <span className="flex items-center gap-2"><WandSparkles size={10} /> 粒子变幻</span>
+               </div>
+               <div className="grid grid-cols-4 gap-2">
+                 {MORPH_OPTIONS.map(({ value, label }) => (
+                   <button
+                      key={value}
+                      onClick={() => setMorphMode(value)}
+                      className={`py-1 text-[10px] tracking-widest rounded-sm border transition-colors ${morphMode === value
+                        ? ACCENT_CLASSES.selected
+                        : 'border-white/20 text-amber-100/50 hover:bg-white/10'}`}
+                   >
+                     {label}
+                   </button>
+                 ))}
+                 <button
+                    onClick={() => useInputStore.getState().emitIntent('morph', 'ui')}
+                    disabled={!morphTarget}
+                    className={`py-1 text-[10px] tracking-widest rounded-sm border transition-colors disabled:opacity-30 ${ACCENT_CLASSES.outline}`}
+                    title="手势 / M 键同样可触发"
+                 >
+                   变幻
+                 </button>
+               </div>
+               {morphMode === 'year' && (
+                 <input
+                    type="text"
+                    inputMode="numeric"
+                    maxLength={8}
+                    value={morphYear}
+                    onChange={(e) => setMorphYear(e.target.value)}
+                    className={`w-full mt-3 bg-white/10 border-b-2 ${ACCENT_CLASSES.input} text-sm py-1 px-2 focus:outline-none focus:bg-white/20 transition-all font-bold tracking-widest rounded-t-sm`}
+                 />
+               )}
+               {morphMode === 'logo' && (
+                 <label className={`flex items-center justify-center gap-2 w-full mt-3 py-1 border border-dashed cursor-pointer text-[10px] tracking-widest transition-colors ${ACCENT_CLASSES.soft}`}>
+                   <ImageUp size={12} />
+                   {morphLogo ? '更换标志 (透明 PNG)' : '上传标志 (透明 PNG)'}
+                   <input type="file" accept="image/*" onChange={handleLogoUpload} className="hidden" />
+                 </label>
+               )}
+            </div>
+
+            {/* Tree Silhouette */}
+            <div className={galleryMode ? 'opacity-30 pointer-events-none' : ''}>
+               <div className="flex justify-between text-[10px] uppercase tracking-widest text-amber-100/50 mb-2">
+                 <span className="flex items-center gap-2"><TreePine size={10} /> 树形</span>
+               </div>
+               <div className="grid grid-cols-5 gap-2">
+                 {TREE_PROFILE_OPTIONS.map(({ value, label }) => (
+                   <button
+                      key={value}
+                      onClick={() => setSettings({...settings, treeProfile: value})}
+                      className={`py-1 text-[10px] tracking-widest rounded-sm border transition-colors ${settings.treeProfile === value
+                        ? ACCENT_CLASSES.selected
+                        : 'border-white/20 text-amber-100/50 hover:bg-white/10'}`}
+                   >
+                     {label}
+                   </button>
+                 ))}
+               </div>
+
+               {/* Spline: one handle per control point, bottom (left) to tip (right) */}
+               {settings.treeProfile === 'spline' && (
+                 <div className="grid grid-cols-5 gap-2 mt-3 justify-items-center">
+                   {settings.treeSpline.map((value, i) => (
+                     <input
+                        key={i}
+                        type="range" min="0" max="1" step="0.05"
+                        value={value}
+                        onChange={(e) => setSettings({...settings, treeSpline: settings.treeSpline.map((v, j) => j === i ? parseFloat(e.target.value) : v)})}
+                        style={{ writingMode: 'vertical-lr', direction: 'rtl' }}
+                        className={`h-16 w-[1px] bg-white/20 appearance-none cursor-pointer ${ACCENT_CLASSES.slider}`}
+                     />
+                   ))}
+                 </div>
+               )}
+
+               <div className="grid grid-cols-2 gap-4 mt-3">
+                 <div>
+                   <div className="flex justify-between text-[10px] uppercase tracking-widest text-amber-100/50 mb-2">
+                     <span>树高</span>
+                     <span>{settings.treeHeight.toFixed(0)}</span>
+                   </div>
+                   <input 
+                      type="range" min="10" max="26" step="1"
+                      value={settings.treeHeight}
+                      onChange={(e) => setSettings({...settings, treeHeight: parseFloat(e.target.value)})}
+                      className={`w-full h-[1px] bg-white/20 appearance-none cursor-pointer ${ACCENT_CLASSES.slider}`}
+                   />
+                 </div>
+                 <div>
+                   <div className="flex justify-between text-[10px] uppercase tracking-widest text-amber-100/50 mb-2">
+                     <span>树冠半径</span>
+                     <span>{settings.treeRadius.toFixed(1)}</span>
+                   </div>
+                   <input 
+                      type="range" min="3" max="12" step="0.5"
+                      value={settings.treeRadius}
+                      onChange={(e) => setSettings({...settings, treeRadius: parseFloat(e.target.value)})}
+                      className={`w-full h-[1px] bg-white/20 appearance-none cursor-pointer ${ACCENT_CLASSES.slider}`}
+                   />
+                 </div>
+               </div>
+            </div>
+
             {/* Gesture Sensitivity */}
             <div className={galleryMode ? 'opacity-30 pointer-events-none' : ''}>
                <div className="flex justify-between text-[10px] uppercase tracking-widest text-amber-100/50 mb-2">
@@ -191,10 +470,100 @@ const App: React.FC = () => {
                   type="range" min="0.5" max="3.0" step="0.1"
                   value={settings.gestureSensitivity}
                   onChange={(e) => setSettings({...settings, gestureSensitivity: parseFloat(e.target.value)})}
-                  className={`w-full h-[1px] bg-white/20 appearance-none cursor-pointer ${settings.theme === 'warm' ? 'accent-amber-500' : 'accent-cyan-400'}`}
+                  className={`w-full h-[1px] bg-white/20 appearance-none cursor-pointer ${ACCENT_CLASSES.slider}`}
                />
             </div>
 
+            {/* Hand Filter Tuning (One Euro) */}
+            <div className={`grid grid-cols-2 gap-4 ${galleryMode ? 'opacity-30 pointer-events-none' : ''}`}>
+               <div>
+                 <div className="flex justify-between text-[10px] uppercase tracking-widest text-amber-100/50 mb-2">
+                   <span>静止防抖</span>
+                   <span>{settings.smoothingCutoff.toFixed(1)}Hz</span>
+                 </div>
+                 <input 
+                    type="range" min="0.1" max="3.0" step="0.1"
+                    value={settings.smoothingCutoff}
+                    onChange={(e) => setSettings({...settings, smoothingCutoff: parseFloat(e.target.value)})}
+                    className={`w-full h-[1px] bg-white/20 appearance-none cursor-pointer ${ACCENT_CLASSES.slider}`}
+                 />
+               </div>
+               <div>
+                 <div className="flex justify-between text-[10px] uppercase tracking-widest text-amber-100/50 mb-2">
+                   <span>跟手速度</span>
+                   <span>{settings.smoothingBeta.toFixed(1)}</span>
+                 </div>
+                 <input 
+                    type="range" min="0" max="10" step="0.5"
+                    value={settings.smoothingBeta}
+                    onChange={(e) => setSettings({...settings, smoothingBeta: parseFloat(e.target.value)})}
+                    className={`w-full h-[1px] bg-white/20 appearance-none cursor-pointer ${ACCENT_CLASSES.slider}`}
+                 />
+               </div>
+            </div>
+
+            {/* Camera Parallax Source */}
+            <div className={galleryMode ? 'opacity-30 pointer-events-none' : ''}>
+               <div className="flex justify-between text-[10px] uppercase tracking-widest text-amber-100/50 mb-2">
+                 <span className="flex items-center gap-2"><ScanFace size={10} /> 视差跟随</span>
+                 {settings.parallaxMode === 'head' && !showCamera && <span className="text-amber-500/60">需开启摄像头</span>}
+               </div>
+               <div className="grid grid-cols-2 gap-2">
+                 {(['hand', 'head'] as const).map((mode) => (
+                   <button
+                      key={mode}
+                      onClick={() => setSettings({...settings, parallaxMode: mode})}
+                      className={`py-1 text-[10px] tracking-widest rounded-sm border transition-colors ${settings.parallaxMode === mode
+                        ? ACCENT_CLASSES.selected
+                        : 'border-white/20 text-amber-100/50 hover:bg-white/10'}`}
+                   >
+                     {mode === 'hand' ? '手势高度' : '头部位置'}
+                   </button>
+                 ))}
+               </div>
+            </div>
+
+            {/* Multi-user: which hand owns the gestures */}
+            <div className={galleryMode ? 'opacity-30 pointer-events-none' : ''}>
+               <div className="flex justify-between text-[10px] uppercase tracking-widest text-amber-100/50 mb-2">
+                 <span className="flex items-center gap-2"><Users size={10} /> 多人主控</span>
+               </div>
+               <div className="grid grid-cols-3 gap-2">
+                 {OWNERSHIP_OPTIONS.map(({ value, label }) => (
+                   <button
+                      key={value}
+                      onClick={() => setSettings({...settings, handOwnership: value})}
+                      className={`py-1 text-[10px] tracking-widest rounded-sm border transition-colors ${settings.handOwnership === value
+                        ? ACCENT_CLASSES.selected
+                        : 'border-white/20 text-amber-100/50 hover:bg-white/10'}`}
+                   >
+                     {label}
+                   </button>
+                 ))}
+               </div>
+            </div>
+
+            {/* Render Quality */}
+            <div>
+               <div className="flex justify-between text-[10px] uppercase tracking-widest text-amber-100/50 mb-2">
+                 <span className="flex items-center gap-2"><MonitorCog size={10} /> 画质</span>
+                 {settings.quality === 'auto' && <span>当前 {QUALITY_LABELS[autoTier]}</span>}
+               </div>
+               <div className="grid grid-cols-5 gap-2">
+                 {QUALITY_OPTIONS.map(({ value, label }) => (
+                   <button
+                      key={value}
+                      onClick={() => setSettings({...settings, quality: value})}
+                      className={`py-1 text-[10px] tracking-widest rounded-sm border transition-colors ${settings.quality === value
+                        ? ACCENT_CLASSES.selected
+                        : 'border-white/20 text-amber-100/50 hover:bg-white/10'}`}
+                   >
+                     {label}
+                   </button>
+                 ))}
+               </div>
+            </div>
+
             {/* Particle Brightness */}
             <div>
                <div className="flex justify-between text-[10px] uppercase tracking-widest text-amber-100/50 mb-2">
@@ -205,7 +574,7 @@ const App: React.FC = () => {
                   type="range" min="0.0" max="2.0" step="0.1"
                   value={settings.particleBrightness}
                   onChange={(e) => setSettings({...settings, particleBrightness: parseFloat(e.target.value)})}
-                  className={`w-full h-[1px] bg-white/20 appearance-none cursor-pointer ${settings.theme === 'warm' ? 'accent-amber-500' : 'accent-cyan-400'}`}
+                  className={`w-full h-[1px] bg-white/20 appearance-none cursor-pointer ${ACCENT_CLASSES.slider}`}
                />
             </div>
 
@@ -219,7 +588,7 @@ const App: React.FC = () => {
                   type="range" min="0" max="3" step="0.1"
                   value={settings.bloomStrength}
                   onChange={(e) => setSettings({...settings, bloomStrength: parseFloat(e.target.value)})}
-                  className={`w-full h-[1px] bg-white/20 appearance-none cursor-pointer ${settings.theme === 'warm' ? 'accent-amber-500' : 'accent-cyan-400'}`}
+                  className={`w-full h-[1px] bg-white/20 appearance-none cursor-pointer ${ACCENT_CLASSES.slider}`}
                />
             </div>
 
@@ -233,25 +602,59 @@ const App: React.FC = () => {
                   type="range" min="0" max="1" step="0.01"
                   value={manualExplode}
                   onChange={(e) => setManualExplode(parseFloat(e.target.value))}
-                  className={`w-full h-[1px] bg-white/20 appearance-none cursor-pointer ${settings.theme === 'warm' ? 'accent-amber-500' : 'accent-cyan-400'}`}
+                  className={`w-full h-[1px] bg-white/20 appearance-none cursor-pointer ${ACCENT_CLASSES.slider}`}
                />
             </div>
 
             {/* Photo Upload */}
-            <label className={`group flex items-center justify-center w-full py-3 mt-4 border border-amber-500/30 text-amber-500 hover:bg-amber-500 hover:text-black cursor-pointer transition-all duration-300 gap-2 text-[10px] uppercase tracking-[0.2em] font-bold ${settings.theme === 'cool' ? 'border-cyan-500/30 text-cyan-400 hover:bg-cyan-500' : ''}`}>
+            <label className={`group flex items-center justify-center w-full py-3 mt-4 border border-[color:var(--ui-accent-soft)] text-[color:var(--ui-accent)] hover:bg-[color:var(--ui-accent)] hover:text-black cursor-pointer transition-all duration-300 gap-2 text-[10px] uppercase tracking-[0.2em] font-bold`}>
               <Upload size={12} className="group-hover:scale-110 transition-transform" />
               上传记忆照片
               <input type="file" multiple accept="image/*" onChange={handlePhotoUpload} className="hidden" />
             </label>
+
+            {/* Saved Session */}
+            <div className="grid grid-cols-2 gap-2 -mt-3">
+              <button
+                 onClick={handleClearPhotos}
+                 disabled={photos.length === 0}
+                 className="flex items-center justify-center gap-2 py-1 text-[10px] tracking-widest rounded-sm border border-white/20 text-amber-100/50 hover:bg-white/10 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                 title="照片保存在本机浏览器中，刷新后自动恢复"
+              >
+                <Trash2 size={10} /> 清空照片 ({photos.length})
+              </button>
+              <button
+                 onClick={resetToDefaults}
+                 className="flex items-center justify-center gap-2 py-1 text-[10px] tracking-widest rounded-sm border border-white/20 text-amber-100/50 hover:bg-white/10 transition-colors"
+                 title="设置自动保存，刷新后保持不变"
+              >
+                <RotateCcw size={10} /> 恢复默认
+              </button>
+            </div>
           </div>
         </div>
       </div>
 
+      {/* Theme Editor (next to the panel) */}
+      {showThemeEditor && showUI && (
+        <div className="absolute bottom-8 left-[23rem] z-10 pointer-events-auto">
+          <ThemeEditor
+            theme={theme}
+            editable={!isBuiltInTheme(theme.id)}
+            onChange={updateTheme}
+            onDuplicate={duplicateTheme}
+            onRemove={deleteTheme}
+            onImport={importTheme}
+            onClose={() => setShowThemeEditor(false)}
+          />
+        </div>
+      )}
+
       {/* Floating UI Toggles */}
       <div className="absolute top-8 right-8 z-20 flex flex-col gap-4 pointer-events-auto">
          <button 
            onClick={() => setShowUI(!showUI)}
-           className={`w-10 h-10 border bg-black/20 backdrop-blur flex items-center justify-center transition-all duration-500 rounded-full ${settings.theme === 'warm' ? 'border-amber-500/20 text-amber-500 hover:bg-amber-500 hover:text-black hover:shadow-[0_0_20px_rgba(255,180,0,0.6)]' : 'border-cyan-500/20 text-cyan-400 hover:bg-cyan-500 hover:text-black hover:shadow-[0_0_20px_rgba(0,255,255,0.6)]'}`}
+           className={`w-10 h-10 border bg-black/20 backdrop-blur flex items-center justify-center transition-all duration-500 rounded-full border-[color:var(--ui-accent-soft)] text-[color:var(--ui-accent)] hover:bg-[color:var(--ui-accent)] hover:text-black hover:shadow-[0_0_20px_var(--ui-accent-soft)]`}
          >
             {showUI ? <X size={16} /> : <Settings size={16} />}
          </button>
@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Crosshair } from 'lucide-react';
+import { HandCalibration, HandFrame } from '../types';
+import { calibrationFromSamples } from '../vision/handCalibration';
+import { DEFAULT_DETECTION_RATE } from '../hooks/useHandTracking';
+
+interface CalibrationWizardProps {
+  frameTapRef: React.MutableRefObject<((frame: HandFrame) => void) | null>;
+  onComplete: (calibration: HandCalibration) => void;
+  onReset: () => void;
+  onCancel: () => void;
+}
+
+// Where each target is drawn on screen; the user reaches to match it
+const CORNERS = [
+  { label: '左上角', className: 'top-[10%] left-[10%]' },
+  { label: '右上角', className: 'top-[10%] right-[10%]' },
+  { label: '右下角', className: 'bottom-[10%] right-[10%]' },
+  { label: '左下角', className: 'bottom-[10%] left-[10%]' },
+];
+
+const HOLD_FRAMES = Math.round(0.5 * DEFAULT_DETECTION_RATE); // 0.5s of holding still, in detection frames
+const HOLD_TOLERANCE = 0.03; // Max palm wobble while holding, in image units
+
+const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ frameTapRef, onComplete, onReset, onCancel }) => {
+  const [step, setStep] = useState(0);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const pointsRef = useRef<{ x: number, y: number }[]>([]);
+  const holdRef = useRef<{ x: number, y: number }[]>([]);
+
+  useEffect(() => {
+    holdRef.current = [];
+    frameTapRef.current = (frame) => {
+      const hand = frame.hands[0];
+      if (!hand) {
+        holdRef.current = [];
+        setProgress(0);
+        return;
+      }
+      const palm = hand.landmarks[9];
+      const hold = holdRef.current;
+      hold.push({ x: palm.x, y: palm.y });
+      if (hold.length > HOLD_FRAMES) hold.shift();
+
+      // Restart the hold whenever the palm wanders
+      const meanX = hold.reduce((sum, p) => sum + p.x, 0) / hold.length;
+      const meanY = hold.reduce((sum, p) => sum + p.y, 0) / hold.length;
+      if (hold.some(p => Math.abs(p.x - meanX) > HOLD_TOLERANCE || Math.abs(p.y - meanY) > HOLD_TOLERANCE)) {
+        holdRef.current = [{ x: palm.x, y: palm.y }];
+      }
+      setProgress(holdRef.current.length / HOLD_FRAMES);
+
+      if (holdRef.current.length >= HOLD_FRAMES) {
+        frameTapRef.current = null;
+        pointsRef.current.push({ x: meanX, y: meanY });
+        setProgress(0);
+        setStep(s => s + 1);
+      }
+    };
+    return () => { frameTapRef.current = null; };
+  }, [step, frameTapRef]);
+
+  // All corners captured
+  useEffect(() => {
+    if (step < CORNERS.length) return;
+    try {
+      onComplete(calibrationFromSamples(pointsRef.current));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      pointsRef.current = [];
+      setStep(0);
+    }
+  }, [step, onComplete]);
+
+  const corner = CORNERS[Math.min(step, CORNERS.length - 1)];
+
+  return createPortal(
+    <div className="fixed inset-0 z-[60] bg-black/60 backdrop-blur-sm text-amber-100 font-serif">
+      {/* Target */}
+      <div className={`absolute ${corner.className} w-20 h-20 -m-10 flex items-center justify-center`}>
+        <div className="absolute inset-0 rounded-full border border-amber-500/40 animate-ping" />
+        <div
+          className="absolute inset-0 rounded-full border-2 border-amber-500"
+          style={{ clipPath: `inset(${(1 - progress) * 100}% 0 0 0)` }}
+        />
+        <Crosshair size={24} className="text-amber-500" />
+      </div>
+
+      {/* Instructions */}
+      <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 pointer-events-none">
+        <h2 className="text-amber-500 uppercase tracking-[0.3em] text-sm">手势范围校准 {Math.min(step + 1, CORNERS.length)}/{CORNERS.length}</h2>
+        <p className="text-xs text-amber-100/70">将手掌伸向你舒适范围的{corner.label}，并保持不动</p>
+        {error && <p className="text-[10px] text-red-400/80">{error}</p>}
+      </div>
+
+      <div className="absolute bottom-10 inset-x-0 flex justify-center gap-4 text-[10px] uppercase tracking-widest">
+        <button onClick={onReset} className="px-4 py-2 border border-amber-500/30 text-amber-500 hover:bg-amber-500 hover:text-black transition-colors">
+          恢复默认
+        </button>
+        <button onClick={onCancel} className="px-4 py-2 border border-amber-500/30 text-amber-500 hover:bg-amber-500 hover:text-black transition-colors">
+          取消
+        </button>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default CalibrationWizard;
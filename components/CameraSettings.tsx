@@ -0,0 +1,57 @@
+import React from 'react';
+import { Video } from 'lucide-react';
+import { CameraPreferences } from '../types';
+import { CAMERA_RESOLUTIONS } from '../vision/cameraDevices';
+
+interface CameraSettingsProps {
+  devices: MediaDeviceInfo[];
+  activeDeviceId: string | null; // What the browser actually opened
+  preferences: CameraPreferences;
+  onChange: (preferences: CameraPreferences) => void;
+}
+
+const CameraSettings: React.FC<CameraSettingsProps> = ({ devices, activeDeviceId, preferences, onChange }) => {
+  const resolutionKey = `${preferences.width}x${preferences.height}`;
+
+  return (
+    <div className="w-64 bg-black/70 backdrop-blur-md border-l border-amber-500/40 p-4 text-[10px] text-amber-100/70 space-y-3">
+      <h3 className="text-amber-500 font-bold flex items-center gap-2 uppercase tracking-widest text-[10px]">
+        <Video size={10} /> 摄像头
+      </h3>
+
+      <label className="block space-y-1">
+        <span className="uppercase tracking-widest text-amber-100/50">设备</span>
+        <select
+          value={preferences.deviceId ?? ''}
+          onChange={(e) => onChange({ ...preferences, deviceId: e.target.value || null })}
+          className="w-full bg-white/10 text-amber-400 px-1 py-1 focus:outline-none"
+        >
+          <option value="" className="bg-black">默认摄像头</option>
+          {devices.map((device, i) => (
+            <option key={device.deviceId || i} value={device.deviceId} className="bg-black">
+              {device.label || `摄像头 ${i + 1}`}{device.deviceId === activeDeviceId ? ' ●' : ''}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="block space-y-1">
+        <span className="uppercase tracking-widest text-amber-100/50">分辨率</span>
+        <select
+          value={resolutionKey}
+          onChange={(e) => {
+            const [width, height] = e.target.value.split('x').map(Number);
+            onChange({ ...preferences, width, height });
+          }}
+          className="w-full bg-white/10 text-amber-400 px-1 py-1 focus:outline-none"
+        >
+          {CAMERA_RESOLUTIONS.map(({ width, height }) => (
+            <option key={`${width}x${height}`} value={`${width}x${height}`} className="bg-black">{width} × {height}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default CameraSettings;
@@ -1,7 +1,10 @@
 
 import React, { useEffect, useRef, useState } from 'react';
-import { FilesetResolver, GestureRecognizer } from '@mediapipe/tasks-vision';
+import { GestureRecognizer } from '@mediapipe/tasks-vision';
 import { GestureState, GestureData } from '../types';
+import { createGestureRecognizer } from '../vision/visionAssets';
+import { CAMERA_STATUS_MESSAGES, loadCameraPreferences } from '../vision/cameraDevices';
+import { useCamera } from '../hooks/useCamera';
 
 interface GestureHandlerProps {
   onGestureDetected: (data: GestureData) => void;
@@ -15,6 +18,7 @@ const GestureHandler: React.FC<GestureHandlerProps> = ({ onGestureDetected, acti
   const recognizerRef = useRef<GestureRecognizer | null>(null);
   const requestRef = useRef<number>(0);
   const [loaded, setLoaded] = useState(false);
+  const [loadError, setLoadError] = useState(false);
 
   // Debouncing Refs
   const lastRawStateRef = useRef<GestureState>(GestureState.IDLE);
@@ -25,45 +29,21 @@ const GestureHandler: React.FC<GestureHandlerProps> = ({ onGestureDetected, acti
   useEffect(() => {
     const init = async () => {
       try {
-        const vision = await FilesetResolver.forVisionTasks(
-          "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.3/wasm"
-        );
-        const recognizer = await GestureRecognizer.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath: "https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/gesture_recognizer.task",
-            delegate: "GPU"
-          },
-          runningMode: "VIDEO",
-          numHands: 2
-        });
-        recognizerRef.current = recognizer;
+        const { task } = await createGestureRecognizer(2);
+        recognizerRef.current = task;
         setLoaded(true);
       } catch (e) {
         console.error("Failed to load MediaPipe:", e);
+        setLoadError(true);
       }
     };
     init();
   }, []);
 
-  // Handle Webcam Stream
-  useEffect(() => {
-    if (active && loaded && videoRef.current) {
-      navigator.mediaDevices.getUserMedia({ video: { width: 320, height: 240 } })
-        .then((stream) => {
-          if (videoRef.current) {
-            videoRef.current.srcObject = stream;
-            videoRef.current.play();
-          }
-        })
-        .catch((err) => console.error("Camera denied:", err));
-    } else {
-        if (videoRef.current && videoRef.current.srcObject) {
-            const stream = videoRef.current.srcObject as MediaStream;
-            stream.getTracks().forEach(track => track.stop());
-            videoRef.current.srcObject = null;
-        }
-    }
-  }, [active, loaded]);
+  // Handle Webcam Stream (same device preference as the vision panel)
+  const [cameraPreferences] = useState(loadCameraPreferences);
+  const camera = useCamera(videoRef, active && loaded, cameraPreferences);
+  const cameraProblem = active ? CAMERA_STATUS_MESSAGES[camera.status] : undefined;
 
   // --- GEOMETRIC HELPERS ---
 
@@ -190,14 +170,20 @@ const GestureHandler: React.FC<GestureHandlerProps> = ({ onGestureDetected, acti
 
   return (
     <div className={className}>
-      {!loaded && <div className="absolute inset-0 flex items-center justify-center text-xs text-gray-500">AI 模型加载中...</div>}
+      {!loaded && <div className="absolute inset-0 flex items-center justify-center text-xs text-gray-500">{loadError ? 'AI 模型加载失败' : 'AI 模型加载中...'}</div>}
+      {cameraProblem && (
+          <div className="absolute inset-0 z-10 flex flex-col items-center justify-center gap-1 text-xs text-gray-500">
+              <span>{cameraProblem.hint}</span>
+              <button onClick={camera.retry} className="text-[10px] underline">重试</button>
+          </div>
+      )}
       <video 
         ref={videoRef} 
         className="w-full h-full object-cover transform -scale-x-100" // Mirror effect
         playsInline 
         muted 
       />
-      {active && loaded && (
+      {active && loaded && camera.status === 'live' && (
           <div className="absolute top-2 left-2 flex gap-1 items-center">
               <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse"></span>
               <span className="text-[10px] text-white font-mono uppercase tracking-widest">实时信号</span>
@@ -0,0 +1,126 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Hand, Trash2 } from 'lucide-react';
+import { CustomGesture, GestureAction, HandFrame } from '../types';
+import { ACTION_LABELS, extractFeatures } from '../vision/customGestures';
+import { DEFAULT_DETECTION_RATE } from '../hooks/useHandTracking';
+
+interface GestureTrainerProps {
+  // VisionController forwards every raw camera frame through this tap
+  frameTapRef: React.MutableRefObject<((frame: HandFrame) => void) | null>;
+  canCapture: boolean;
+  gestures: CustomGesture[];
+  onAdd: (name: string, action: GestureAction, samples: number[][]) => void;
+  onRemove: (id: string) => void;
+  onSetAction: (id: string, action: GestureAction) => void;
+}
+
+const REP_FRAMES = Math.round(0.25 * DEFAULT_DETECTION_RATE); // Detection frames watched per repetition (0.25s)
+const SAMPLE_EVERY = 3; // Keep every 3rd frame as a training sample
+const MIN_REPS = 3;
+
+const ACTIONS = Object.keys(ACTION_LABELS) as GestureAction[];
+
+const GestureTrainer: React.FC<GestureTrainerProps> = ({ frameTapRef, canCapture, gestures, onAdd, onRemove, onSetAction }) => {
+  const [name, setName] = useState('');
+  const [action, setAction] = useState<GestureAction>('summon');
+  const [reps, setReps] = useState(0);
+  const [capturing, setCapturing] = useState(false);
+
+  const samplesRef = useRef<number[][]>([]);
+  const repFrameRef = useRef(0);
+
+  // Capture one repetition of the pose from the live frame stream
+  useEffect(() => {
+    if (!capturing) return;
+    repFrameRef.current = 0;
+    frameTapRef.current = (frame) => {
+      const hand = frame.hands[0];
+      if (!hand) return; // Wait for the hand to be in view
+      if (repFrameRef.current % SAMPLE_EVERY === 0) {
+        samplesRef.current.push(extractFeatures(hand.landmarks));
+      }
+      repFrameRef.current++;
+      if (repFrameRef.current >= REP_FRAMES) {
+        frameTapRef.current = null;
+        setReps(r => r + 1);
+        setCapturing(false);
+      }
+    };
+    return () => { frameTapRef.current = null; };
+  }, [capturing, frameTapRef]);
+
+  const resetDraft = () => {
+    samplesRef.current = [];
+    setReps(0);
+    setName('');
+  };
+
+  const saveGesture = () => {
+    onAdd(name.trim() || `手势 ${gestures.length + 1}`, action, samplesRef.current);
+    resetDraft();
+  };
+
+  return (
+    <div className="w-64 bg-black/70 backdrop-blur-md border-l border-amber-500/40 p-4 text-[10px] text-amber-100/70 space-y-3">
+      <h3 className="text-amber-500 font-bold flex items-center gap-2 uppercase tracking-widest text-[10px]">
+        <Hand size={10} /> 自定义手势
+      </h3>
+
+      {/* Trained Gestures */}
+      {gestures.map(g => (
+        <div key={g.id} className="flex items-center gap-2">
+          <span className="flex-1 truncate text-amber-100">{g.name}</span>
+          <select
+            value={g.action}
+            onChange={(e) => onSetAction(g.id, e.target.value as GestureAction)}
+            className="bg-white/10 text-amber-400 px-1 py-0.5 focus:outline-none"
+          >
+            {ACTIONS.map(a => <option key={a} value={a} className="bg-black">{ACTION_LABELS[a]}</option>)}
+          </select>
+          <button onClick={() => onRemove(g.id)} className="text-amber-500/60 hover:text-red-400" title="删除">
+            <Trash2 size={10} />
+          </button>
+        </div>
+      ))}
+
+      {/* New Gesture */}
+      <div className="pt-2 border-t border-white/10 space-y-2">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            placeholder="手势名称"
+            onChange={(e) => setName(e.target.value)}
+            className="flex-1 min-w-0 bg-white/10 border-b border-amber-500 text-amber-400 placeholder-amber-500/30 px-1 py-0.5 focus:outline-none"
+          />
+          <select
+            value={action}
+            onChange={(e) => setAction(e.target.value as GestureAction)}
+            className="bg-white/10 text-amber-400 px-1 py-0.5 focus:outline-none"
+          >
+            {ACTIONS.map(a => <option key={a} value={a} className="bg-black">{ACTION_LABELS[a]}</option>)}
+          </select>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setCapturing(true)}
+            disabled={!canCapture || capturing}
+            className="flex-1 py-1 border border-amber-500/30 text-amber-500 hover:bg-amber-500 hover:text-black transition-colors disabled:opacity-30 disabled:pointer-events-none"
+          >
+            {capturing ? '保持姿势...' : `采集样本 (${reps}/${MIN_REPS})`}
+          </button>
+          <button
+            onClick={saveGesture}
+            disabled={reps < MIN_REPS}
+            className="px-3 py-1 border border-amber-500/30 text-amber-500 hover:bg-amber-500 hover:text-black transition-colors disabled:opacity-30 disabled:pointer-events-none"
+          >
+            保存
+          </button>
+        </div>
+        {!canCapture && <p className="text-amber-100/40">开启摄像头后即可采集</p>}
+      </div>
+    </div>
+  );
+};
+
+export default GestureTrainer;
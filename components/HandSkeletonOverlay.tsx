@@ -0,0 +1,108 @@
+import React, { useEffect, useRef } from 'react';
+import { GestureRecognizer } from '@mediapipe/tasks-vision';
+import { GestureState } from '../types';
+import { useVisionStore } from '../store';
+import { STABILITY_THRESHOLD } from '../vision/handFrameProcessor';
+import { HAND_SLOT_COLORS } from '../vision/handIdentity';
+
+interface HandSkeletonOverlayProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+}
+
+// Owner's bone tint per confirmed gesture (summon poses share one colour); other hands use their slot colour
+const GESTURE_COLORS: Record<GestureState, string> = {
+  [GestureState.IDLE]: 'rgba(255, 236, 179, 0.6)',
+  [GestureState.OPEN_PALM]: '#FFD700',
+  [GestureState.CLOSED_FIST]: '#FF4500',
+  [GestureState.ROTATE]: '#00BFFF',
+  [GestureState.VICTORY]: '#FF69B4',
+  [GestureState.OK_PINCH]: '#FF69B4',
+  [GestureState.THUMB_UP]: '#FF69B4',
+  [GestureState.POINTING_UP]: '#FF69B4',
+  [GestureState.DUAL_PINCH]: '#7CFC00',
+  [GestureState.GALLERY_TOGGLE]: '#BA55D3',
+  [GestureState.MORPH]: '#FFA07A',
+};
+
+const FINGERTIPS = new Set([4, 8, 12, 16, 20]);
+
+// Draws the tracked skeleton over the mirrored preview. Reads the store every frame
+// like the scene does, so it never re-renders React.
+const HandSkeletonOverlay: React.FC<HandSkeletonOverlayProps> = ({ videoRef }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let frameId = 0;
+
+    const draw = () => {
+      frameId = requestAnimationFrame(draw);
+      const canvas = canvasRef.current;
+      const video = videoRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+
+      // Match the backing store to the displayed size
+      const width = canvas.clientWidth;
+      const height = canvas.clientHeight;
+      const dpr = window.devicePixelRatio || 1;
+      if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+        canvas.width = Math.round(width * dpr);
+        canvas.height = Math.round(height * dpr);
+      }
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.clearRect(0, 0, width, height);
+
+      const { isHandDetected, trackedHands, gesture, rawGesture, gestureStability, gestureRejected } = useVisionStore.getState();
+      if (!isHandDetected) return;
+
+      // Same framing as the <video>: object-cover, mirrored horizontally
+      const videoWidth = video?.videoWidth || width;
+      const videoHeight = video?.videoHeight || height;
+      const scale = Math.max(width / videoWidth, height / videoHeight);
+      const offsetX = (width - videoWidth * scale) / 2;
+      const offsetY = (height - videoHeight * scale) / 2;
+      const toX = (x: number) => offsetX + (1 - x) * videoWidth * scale;
+      const toY = (y: number) => offsetY + y * videoHeight * scale;
+
+      const color = GESTURE_COLORS[gesture];
+      ctx.lineWidth = 1.5;
+
+      ctx.font = '8px monospace';
+      ctx.textBaseline = 'top';
+      for (const { landmarks, isOwner, slot, handedness } of trackedHands) {
+        ctx.strokeStyle = isOwner ? color : HAND_SLOT_COLORS[slot];
+        ctx.fillStyle = ctx.strokeStyle;
+        ctx.beginPath();
+        for (const { start, end } of GestureRecognizer.HAND_CONNECTIONS) {
+          ctx.moveTo(toX(landmarks[start].x), toY(landmarks[start].y));
+          ctx.lineTo(toX(landmarks[end].x), toY(landmarks[end].y));
+        }
+        ctx.stroke();
+
+        landmarks.forEach((point, i) => {
+          ctx.beginPath();
+          ctx.arc(toX(point.x), toY(point.y), FINGERTIPS.has(i) ? 2.5 : 1.5, 0, Math.PI * 2);
+          ctx.fill();
+        });
+
+        // L / R by the wrist
+        if (handedness) ctx.fillText(handedness === 'Left' ? 'L' : 'R', toX(landmarks[0].x) + 4, toY(landmarks[0].y) + 4);
+      }
+
+      // Confirmed state, then the raw one with how close it is to registering
+      const stability = Math.min(gestureStability, STABILITY_THRESHOLD + 1);
+      ctx.textBaseline = 'bottom';
+      ctx.fillStyle = color;
+      ctx.fillText(gesture, 6, height - 16);
+      ctx.fillStyle = rawGesture === gesture ? 'rgba(255, 236, 179, 0.4)' : 'rgba(255, 236, 179, 0.8)';
+      ctx.fillText(`RAW ${rawGesture} ${stability}/${STABILITY_THRESHOLD + 1}${gestureRejected ? ' LOW' : ''}`, 6, height - 6);
+    };
+    draw();
+
+    return () => cancelAnimationFrame(frameId);
+  }, [videoRef]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />;
+};
+
+export default HandSkeletonOverlay;
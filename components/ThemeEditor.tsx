@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { Copy, Download, Palette, Plus, Trash2, Upload, X } from 'lucide-react';
+import { EnvironmentPreset, Theme } from '../types';
+import { ENVIRONMENT_PRESETS, parseTheme, serializeTheme } from '../themes';
+
+interface ThemeEditorProps {
+  theme: Theme;
+  editable: boolean; // Built-ins are read-only; copy one to change it
+  onChange: (theme: Theme) => void;
+  onDuplicate: () => void;
+  onRemove: () => void;
+  onImport: (theme: Theme) => void;
+  onClose: () => void;
+}
+
+type ColorSection = 'palette' | 'words' | 'particles' | 'lights' | 'ui';
+
+// Keys of a section that hold a single colour (not the ornament list or default words)
+type ColorKey<S extends ColorSection> = { [K in keyof Theme[S]]: Theme[S][K] extends string ? K : never }[keyof Theme[S]];
+type ColorView = { [S in ColorSection]: { [K in ColorKey<S>]: string } };
+const colorView = (theme: Theme): ColorView => theme;
+
+interface ColorField {
+  key: string;
+  label: string;
+  read: (theme: Theme) => string;
+  write: (theme: Theme, value: string) => Theme;
+}
+
+// Keys are checked against the section here, so the editor itself never indexes by a loose string
+const colorGroup = <S extends ColorSection>(section: S, title: string, fields: { key: ColorKey<S>, label: string }[]) => ({
+  section,
+  title,
+  fields: fields.map(({ key, label }): ColorField => ({
+    key: String(key),
+    label,
+    read: (theme) => colorView(theme)[section][key],
+    write: (theme, value) => ({ ...theme, [section]: { ...theme[section], [key]: value } }),
+  })),
+});
+
+const COLOR_GROUPS = [
+  colorGroup('palette', '主色', [
+    { key: 'foliage', label: '树叶' }, { key: 'glow', label: '光晕' }, { key: 'photoFrame', label: '相框' }, { key: 'background', label: '背景' },
+  ]),
+  colorGroup('particles', '粒子', [
+    { key: 'highlight', label: '高光' }, { key: 'accent', label: '点缀' }, { key: 'dust', label: '星尘' },
+    { key: 'sparkles', label: '闪烁' }, { key: 'topperSparkles', label: '星顶' }, { key: 'meteors', label: '流星' },
+  ]),
+  colorGroup('lights', '灯光', [
+    { key: 'ambient', label: '环境光' }, { key: 'key', label: '主光' }, { key: 'fill', label: '补光' },
+  ]),
+  colorGroup('words', '祝福语', [
+    { key: 'color', label: '文字' }, { key: 'outline', label: '描边' }, { key: 'glow', label: '发光' },
+  ]),
+  colorGroup('ui', '界面', [{ key: 'accent', label: '强调色' }]),
+];
+
+const MAX_ORNAMENT_COLORS = 8;
+
+const ThemeEditor: React.FC<ThemeEditorProps> = ({ theme, editable, onChange, onDuplicate, onRemove, onImport, onClose }) => {
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const setOrnaments = (ornaments: string[]) => onChange({ ...theme, palette: { ...theme.palette, ornaments } });
+
+  const exportTheme = () => {
+    const url = URL.createObjectURL(new Blob([serializeTheme(theme)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${theme.name}.theme.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0); // Same-task revoke can cancel the download
+  };
+
+  const importTheme = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Same file can be picked again after fixing it
+    if (!file) return;
+    try {
+      onImport(parseTheme(await file.text()));
+      setImportError(null);
+    } catch (e) {
+      console.error("Theme import failed:", e);
+      setImportError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="w-72 max-h-[80vh] overflow-y-auto bg-black/70 backdrop-blur-md border-l border-[color:var(--ui-accent-soft)] p-4 text-[10px] text-amber-100/70 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[color:var(--ui-accent)] font-bold flex items-center gap-2 uppercase tracking-widest text-[10px]">
+          <Palette size={10} /> 主题编辑
+        </h3>
+        <button onClick={onClose} className="text-amber-100/40 hover:text-white" title="关闭">
+          <X size={12} />
+        </button>
+      </div>
+
+      {/* Name, or a hint that built-ins need copying first */}
+      {editable ? (
+        <input
+          type="text"
+          value={theme.name}
+          onChange={(e) => onChange({ ...theme, name: e.target.value })}
+          className="w-full bg-white/10 border-b border-[color:var(--ui-accent)] text-[color:var(--ui-accent)] px-1 py-0.5 focus:outline-none"
+        />
+      ) : (
+        <p className="text-amber-100/40">内置主题「{theme.name}」不可修改，复制后即可编辑。</p>
+      )}
+
+      <fieldset disabled={!editable} className="space-y-3 disabled:opacity-40">
+        {COLOR_GROUPS.map(({ section, title, fields }) => (
+          <div key={section}>
+            <div className="uppercase tracking-widest text-amber-100/50 mb-1">{title}</div>
+            <div className="grid grid-cols-3 gap-x-2 gap-y-1">
+              {fields.map(({ key, label, read, write }) => (
+                <label key={key} className="flex items-center gap-1 cursor-pointer">
+                  <input
+                    type="color"
+                    value={read(theme)}
+                    onChange={(e) => onChange(write(theme, e.target.value))}
+                    className="w-4 h-4 p-0 border-0 bg-transparent cursor-pointer"
+                  />
+                  <span className="truncate">{label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        {/* Ornament palette: at least one colour */}
+        <div>
+          <div className="uppercase tracking-widest text-amber-100/50 mb-1">挂饰</div>
+          <div className="flex flex-wrap items-center gap-1">
+            {theme.palette.ornaments.map((color, i) => (
+              <span key={i} className="relative group">
+                <input
+                  type="color"
+                  value={color}
+                  onChange={(e) => setOrnaments(theme.palette.ornaments.map((c, j) => j === i ? e.target.value : c))}
+                  className="w-5 h-5 p-0 border-0 bg-transparent cursor-pointer"
+                />
+                {theme.palette.ornaments.length > 1 && (
+                  <button
+                    onClick={() => setOrnaments(theme.palette.ornaments.filter((_, j) => j !== i))}
+                    className="absolute -top-1 -right-1 hidden group-hover:block bg-black rounded-full text-amber-100/60 hover:text-red-400"
+                    title="移除"
+                  >
+                    <X size={8} />
+                  </button>
+                )}
+              </span>
+            ))}
+            {theme.palette.ornaments.length < MAX_ORNAMENT_COLORS && (
+              <button
+                onClick={() => setOrnaments([...theme.palette.ornaments, theme.palette.glow])}
+                className="w-5 h-5 flex items-center justify-center border border-dashed border-white/20 text-amber-100/50 hover:bg-white/10"
+                title="添加颜色"
+              >
+                <Plus size={10} />
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <label className="space-y-1">
+            <div className="uppercase tracking-widest text-amber-100/50">环境反射</div>
+            <select
+              value={theme.environment}
+              onChange={(e) => onChange({ ...theme, environment: e.target.value as EnvironmentPreset })}
+              className="w-full bg-white/10 text-[color:var(--ui-accent)] px-1 py-0.5 focus:outline-none"
+            >
+              {ENVIRONMENT_PRESETS.map(preset => <option key={preset} value={preset} className="bg-black">{preset}</option>)}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <div className="uppercase tracking-widest text-amber-100/50">默认词 (逗号分隔)</div>
+            <input
+              type="text"
+              defaultValue={theme.words.defaults.join(', ')}
+              key={theme.id}
+              onBlur={(e) => {
+                const defaults = e.target.value.split(',').map(w => w.trim()).filter(w => w.length > 0);
+                if (defaults.length > 0) onChange({ ...theme, words: { ...theme.words, defaults } });
+              }}
+              className="w-full bg-white/10 border-b border-[color:var(--ui-accent)] text-[color:var(--ui-accent)] px-1 py-0.5 focus:outline-none"
+            />
+          </label>
+        </div>
+      </fieldset>
+
+      {/* Registry actions */}
+      <div className="pt-2 border-t border-white/10 grid grid-cols-4 gap-2">
+        <button onClick={onDuplicate} className="flex items-center justify-center py-1 border border-[color:var(--ui-accent-soft)] text-[color:var(--ui-accent)] hover:bg-[color:var(--ui-accent)] hover:text-black transition-colors" title="复制为新主题">
+          <Copy size={10} />
+        </button>
+        <button onClick={exportTheme} className="flex items-center justify-center py-1 border border-[color:var(--ui-accent-soft)] text-[color:var(--ui-accent)] hover:bg-[color:var(--ui-accent)] hover:text-black transition-colors" title="导出 JSON">
+          <Download size={10} />
+        </button>
+        <label className="flex items-center justify-center py-1 border border-[color:var(--ui-accent-soft)] text-[color:var(--ui-accent)] hover:bg-[color:var(--ui-accent)] hover:text-black transition-colors cursor-pointer" title="导入 JSON">
+          <Upload size={10} />
+          <input type="file" accept="application/json,.json" onChange={importTheme} className="hidden" />
+        </label>
+        <button onClick={onRemove} disabled={!editable} className="flex items-center justify-center py-1 border border-[color:var(--ui-accent-soft)] text-[color:var(--ui-accent)] hover:bg-red-500 hover:text-black transition-colors disabled:opacity-30 disabled:pointer-events-none" title="删除主题">
+          <Trash2 size={10} />
+        </button>
+      </div>
+      {importError && <p className="text-red-400/80 break-words">导入失败：{importError}</p>}
+    </div>
+  );
+};
+
+export default ThemeEditor;
@@ -1,53 +1,76 @@
 
 import React, { useRef, useMemo, useState, useEffect, useLayoutEffect, Suspense } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
-import { PointMaterial, Image, Float, OrbitControls, Environment, Stars, Sparkles, Trail, Text } from '@react-three/drei';
+import { Image, Float, OrbitControls, Environment, Stars, Sparkles, Trail, Text } from '@react-three/drei';
 import * as THREE from 'three';
-import { TreeSettings, GestureState, ThemeMode } from '../types';
-import { useVisionStore } from '../store';
+import { TreeSettings, GestureState, Theme, ParallaxMode, InputIntent, QualityProfile, MorphTarget } from '../types';
+import { createIntentReader, selectCursors, selectExplodeTarget, selectSummonHeld, useInputStore, useVisionStore } from '../store';
+import { useInputSources } from '../hooks/useInputSources';
+import { useGestureEvent } from '../hooks/useGestureEvent';
+import { HAND_SLOT_COLORS, MAX_TRACKED_HANDS } from '../vision/handIdentity';
+import { createFoliageMaterial, updateFoliageMaterial, updateFoliageMorph } from '../shaders/foliageMaterial';
+import { createTreeShape, getPhotoSpiralPosition, TreeShape } from '../treeProfiles';
+import { createGoldDustMaterial, createGoldDustSimulation } from '../shaders/goldDustSimulation';
+import { sampleMorphTarget } from '../morphTargets';
 
 interface TreeSceneProps {
   settings: TreeSettings;
+  theme: Theme; // Resolved from settings.theme by the registry
   photos: string[];
-  manualExplodeFactor: number;
   isGalleryMode: boolean; 
   customWords: string[];
+  quality: QualityProfile; // Particle budgets, environment (DPR and bloom live on the canvas)
+  morphTarget: MorphTarget | null; // What a 'morph' intent turns the foliage into
 }
 
-const COUNT = 25000; 
-const DECO_COUNT = 2000; 
-const TREE_HEIGHT = 18;
-const TREE_RADIUS = 7.5;
-
-// --- Helper: Tree Shape Math ---
-const getTreeRadiusAtHeight = (y: number) => {
-    const hNorm = (y + TREE_HEIGHT / 2) / TREE_HEIGHT;
-    return Math.pow((1 - hNorm), 0.8) * TREE_RADIUS;
+const EXPANSION_STRENGTH = 9.0; // Radial push of the foliage at full explode
+const CAMERA_MIN_DISTANCE = 10;
+const CAMERA_MAX_DISTANCE = 50;
+const HAND_DEPTH_DEADZONE = 0.3; // Ignore natural wobble in hand distance
+const HAND_DOLLY_SPEED = 18; // World units / s at full push
+const HEAD_PARALLAX_X = 8.0; // Camera shift (world units) with the viewer at the frame edge
+const HEAD_PARALLAX_Y = 5.0;
+const MORPH_FORM_TIME = 2.5; // Seconds for the foliage to fly into the morph shape
+const MORPH_HOLD_TIME = 4.0;
+const MORPH_RETURN_TIME = 2.5;
+const PHOTO_TIMEOUT_MS = 4000; // A summoned photo goes back once nothing has held it for this long
+
+// --- Helper: Screen (NDC) -> World on a Z plane ---
+// Shared by mouse and hand input so both land on the same spot for the same screen point
+const projectToPlaneZ = (ndc: { x: number, y: number }, camera: THREE.Camera, z: number) => {
+    const vec = new THREE.Vector3(ndc.x, ndc.y, 0.5);
+    vec.unproject(camera);
+    const dir = vec.sub(camera.position).normalize();
+    const distance = (z - camera.position.z) / dir.z;
+    return camera.position.clone().add(dir.multiplyScalar(distance));
 };
 
 // --- Hook: Tree Particles ---
-const useTreeParticles = (theme: ThemeMode, color: string) => {
-    return useMemo(() => {
-        const positions = new Float32Array(COUNT * 3);
-        const colors = new Float32Array(COUNT * 3);
-        
-        const baseColor = new THREE.Color(color); // Uses theme color passed in
-        const goldColor = new THREE.Color(theme === 'warm' ? "#FFD700" : "#E0F7FA"); // Gold vs Ice Blue
-        const accentColor = new THREE.Color(theme === 'warm' ? "#FF4500" : "#00BFFF"); // Orange-Red vs Deep Sky Blue
-        
-        for (let i = 0; i < COUNT; i++) {
-            const y = (Math.random() - 0.5) * TREE_HEIGHT;
-            const rMax = getTreeRadiusAtHeight(y);
-            const r = rMax * Math.sqrt(Math.random()); 
-            const theta = Math.random() * Math.PI * 2 * 10 + y;
-
-            const x = r * Math.cos(theta);
-            const z = r * Math.sin(theta);
-
+// Explode runs in the foliage vertex shader, so 200k+ points are fine on big screens
+// Positions and colours are separate so a palette change recolours the tree without reshuffling it
+const useTreeParticles = (theme: Theme, count: number, shape: TreeShape) => {
+    const { foliage } = theme.palette;
+    const { highlight, accent } = theme.particles;
+
+    const sourcePositions = useMemo(() => {
+        const positions = new Float32Array(count * 3);
+        for (let i = 0; i < count; i++) {
+            const { x, y, z } = shape.sampleVolume();
             positions[i * 3] = x;
             positions[i * 3 + 1] = y;
             positions[i * 3 + 2] = z;
+        }
+        return positions;
+    }, [count, shape]);
 
+    const colors = useMemo(() => {
+        const colors = new Float32Array(count * 3);
+        
+        const baseColor = new THREE.Color(foliage);
+        const goldColor = new THREE.Color(highlight);
+        const accentColor = new THREE.Color(accent);
+        
+        for (let i = 0; i < count; i++) {
             const rand = Math.random();
             let pColor = baseColor;
             
@@ -60,45 +83,51 @@ const useTreeParticles = (theme: ThemeMode, color: string) => {
             colors[i * 3 + 1] = pColor.g * lightness;
             colors[i * 3 + 2] = pColor.b * lightness;
         }
-        return { 
-            sourcePositions: positions, 
-            colors
-        };
-    }, [theme, color]);
+        return colors;
+    }, [foliage, highlight, accent, count]);
+
+    return { sourcePositions, colors };
 };
 
 // --- COMPONENT: MAGIC WAND (Light Trail & Interactive Spotlight) ---
-const MagicWand = ({ theme }: { theme: ThemeMode }) => {
+// One per cursor slot: a hand each, or the mouse / touch point in slot 0
+const MagicWand = ({ theme, slot }: { theme: Theme, slot: number }) => {
     const wandRef = useRef<THREE.Mesh>(null);
-    const { camera, pointer, viewport } = useThree();
+    const lightRef = useRef<THREE.PointLight>(null);
+    const { camera } = useThree();
     
     // Smooth movement vector
     const targetPos = useRef(new THREE.Vector3(0, 0, 10));
+    const wasShown = useRef(slot === 0);
 
     useFrame((state, delta) => {
         if (!wandRef.current) return;
 
-        const { isHandDetected, handPosition } = useVisionStore.getState();
+        const cursor = selectCursors(useInputStore.getState()).find(c => c.slot === slot);
+        const shown = !!cursor;
 
-        if (isHandDetected) {
-            // Hand Mode: Map mapped hand position directly
-            // handPosition is already roughly World Space from the hook, but let's refine Z
-            targetPos.current.set(handPosition.x, handPosition.y, 8); 
-        } else {
-            // Mouse Mode: Unproject mouse to a plane in front of the tree
-            const vec = new THREE.Vector3(pointer.x, pointer.y, 0.5);
-            vec.unproject(camera);
-            const dir = vec.sub(camera.position).normalize();
-            const distance = (10 - camera.position.z) / dir.z; // Project to Z=10 roughly
-            const pos = camera.position.clone().add(dir.multiplyScalar(distance));
-            targetPos.current.lerp(pos, 0.2); // Smooth follow
+        if (cursor?.source === 'hand') {
+            // Hand Mode: Calibrated reach covers the screen, already smoothed by the tracker;
+            // pushing toward the screen moves the wand deeper into the scene
+            targetPos.current.copy(projectToPlaneZ(cursor.position, camera, 8 - cursor.depth * 3));
+        } else if (cursor) {
+            // Mouse / Touch Mode: Unproject to a plane in front of the tree
+            targetPos.current.lerp(projectToPlaneZ(cursor.position, camera, 10), 0.2); // Smooth follow
         }
 
+        // A hand entering the frame starts its wand where it is, not across the screen
+        if (shown && !wasShown.current) wandRef.current.position.copy(targetPos.current);
+        wasShown.current = shown;
+
+        // Hide without removing the light, so the light count (and shaders) never change
+        wandRef.current.scale.setScalar(shown ? 1 : 0);
+        if (lightRef.current) lightRef.current.intensity = shown ? 10.0 : 0;
+
         // Apply Position with lerp for butter-smooth trails
         wandRef.current.position.lerp(targetPos.current, delta * 10);
     });
 
-    const trailColor = theme === 'warm' ? "#FFD700" : "#00FFFF";
+    const trailColor = slot === 0 ? theme.palette.glow : HAND_SLOT_COLORS[slot];
 
     return (
         <group>
@@ -117,6 +146,7 @@ const MagicWand = ({ theme }: { theme: ThemeMode }) => {
                     
                     {/* Dynamic Light that illuminates the tree locally */}
                     <pointLight 
+                        ref={lightRef}
                         intensity={10.0} 
                         distance={15} 
                         color={trailColor} 
@@ -129,7 +159,7 @@ const MagicWand = ({ theme }: { theme: ThemeMode }) => {
 };
 
 // --- Shockwave Effect ---
-const Shockwave = ({ explodeRef, theme }: { explodeRef: React.MutableRefObject<number>, theme: ThemeMode }) => {
+const Shockwave = ({ explodeRef, theme }: { explodeRef: React.MutableRefObject<number>, theme: Theme }) => {
     const meshRef = useRef<THREE.Mesh>(null);
     const prevExplodeRef = useRef(0);
     const activeWaveRef = useRef(0); // 0 = inactive, 1 = full expansion
@@ -171,7 +201,7 @@ const Shockwave = ({ explodeRef, theme }: { explodeRef: React.MutableRefObject<n
         <mesh ref={meshRef} visible={false}>
             <ringGeometry args={[0.8, 1, 64]} />
             <meshBasicMaterial 
-                color={theme === 'warm' ? "#FFD700" : "#00FFFF"} 
+                color={theme.palette.glow} 
                 transparent 
                 side={THREE.DoubleSide} 
                 blending={THREE.AdditiveBlending} 
@@ -181,15 +211,11 @@ const Shockwave = ({ explodeRef, theme }: { explodeRef: React.MutableRefObject<n
 };
 
 // --- Floating Words ---
-const FloatingWords = ({ theme, customWords }: { theme: ThemeMode, customWords: string[] }) => {
+const FloatingWords = ({ theme, customWords }: { theme: Theme, customWords: string[] }) => {
     const groupRef = useRef<THREE.Group>(null);
     
     // Use custom words if available, else use default theme words
-    const defaultWords = theme === 'warm' 
-        ? ["JOY", "WEALTH", "LUXURY", "2025"] 
-        : ["PEACE", "DREAMS", "FUTURE", "NOËL"];
-    
-    const words = customWords.length > 0 ? customWords : defaultWords;
+    const words = customWords.length > 0 ? customWords : theme.words.defaults;
     
     useFrame((state) => {
         if (groupRef.current) {
@@ -213,15 +239,15 @@ const FloatingWords = ({ theme, customWords }: { theme: ThemeMode, customWords:
                             <Text
                                 fontSize={2.5} // Larger text
                                 letterSpacing={0.1}
-                                color={theme === 'warm' ? "#FFD700" : "#E0F7FA"}
+                                color={theme.words.color}
                                 anchorX="center"
                                 anchorY="middle"
                                 outlineWidth={0.05}
-                                outlineColor={theme === 'warm' ? "#553300" : "#003344"}
+                                outlineColor={theme.words.outline}
                             >
                                 {word}
                                 <meshStandardMaterial 
-                                    emissive={theme === 'warm' ? "#FFA500" : "#00FFFF"} 
+                                    emissive={theme.words.glow} 
                                     emissiveIntensity={2.0} 
                                     toneMapped={false} 
                                 />
@@ -235,20 +261,15 @@ const FloatingWords = ({ theme, customWords }: { theme: ThemeMode, customWords:
 }
 
 // --- Ornaments Component ---
-const DynamicOrnaments: React.FC<{ explodeRef: React.MutableRefObject<number>, theme: ThemeMode }> = ({ explodeRef, theme }) => {
+const DynamicOrnaments: React.FC<{ explodeRef: React.MutableRefObject<number>, palette: string[], count: number, shape: TreeShape }> = ({ explodeRef, palette, count, shape }) => {
     const meshRef = useRef<THREE.InstancedMesh>(null);
     const tempObj = useMemo(() => new THREE.Object3D(), []);
     
     // Generate initial data (positions only)
     const { initialData } = useMemo(() => {
         const data = [];
-        for (let i = 0; i < DECO_COUNT; i++) {
-             const y = (Math.random() - 0.5) * TREE_HEIGHT;
-             const rMax = getTreeRadiusAtHeight(y);
-             const r = rMax * (0.8 + Math.random() * 0.2); 
-             const theta = Math.random() * Math.PI * 2;
-             
-             const pos = new THREE.Vector3(r * Math.cos(theta), y, r * Math.sin(theta));
+        for (let i = 0; i < count; i++) {
+             const pos = shape.sampleSurface();
              const rot = new THREE.Euler(Math.random() * Math.PI, Math.random() * Math.PI, 0);
              const scale = Math.random() * 0.15 + 0.1;
              const normal = pos.clone().setY(0).normalize();
@@ -256,20 +277,13 @@ const DynamicOrnaments: React.FC<{ explodeRef: React.MutableRefObject<number>, t
              data.push({ pos, rot, scale, normal });
         }
         return { initialData: data };
-    }, []);
+    }, [count, shape]);
 
     // Update colors when theme changes - Use LayoutEffect to ensure it runs before paint
     useLayoutEffect(() => {
         if(meshRef.current) {
             const c = new THREE.Color();
-            // Warm: Gold, Silver, Red, Bronze
-            const warmPalette = ['#FFD700', '#E5E4E2', '#B22222', '#CD7F32'];
-            // Cool: Cyan, White, DeepBlue, Purple
-            const coolPalette = ['#00FFFF', '#FFFFFF', '#1E90FF', '#9370DB'];
-            
-            const palette = theme === 'warm' ? warmPalette : coolPalette;
-
-            for(let i=0; i<DECO_COUNT; i++) {
+            for(let i=0; i<count; i++) {
                 // Use deterministic random based on index to keep patterns stable-ish
                 const colorIdx = (i * 1234) % palette.length;
                 c.set(palette[colorIdx]);
@@ -279,7 +293,7 @@ const DynamicOrnaments: React.FC<{ explodeRef: React.MutableRefObject<number>, t
                 meshRef.current.instanceColor.needsUpdate = true;
             }
         }
-    }, [theme]);
+    }, [palette, count]);
 
     useFrame((state) => {
         if (!meshRef.current) return;
@@ -287,7 +301,7 @@ const DynamicOrnaments: React.FC<{ explodeRef: React.MutableRefObject<number>, t
         const explodeFactor = explodeRef.current;
         const expansionStrength = 12.0; 
 
-        for (let i = 0; i < DECO_COUNT; i++) {
+        for (let i = 0; i < count; i++) {
             const { pos, rot, scale, normal } = initialData[i];
             
             tempObj.position.copy(pos);
@@ -314,7 +328,7 @@ const DynamicOrnaments: React.FC<{ explodeRef: React.MutableRefObject<number>, t
     });
 
     return (
-        <instancedMesh ref={meshRef} args={[undefined, undefined, DECO_COUNT]} frustumCulled={false}>
+        <instancedMesh ref={meshRef} args={[undefined, undefined, count]} frustumCulled={false}>
             <sphereGeometry args={[1, 16, 16]} />
             <meshPhysicalMaterial roughness={0.1} metalness={1.0} envMapIntensity={3.0} />
         </instancedMesh>
@@ -322,7 +336,7 @@ const DynamicOrnaments: React.FC<{ explodeRef: React.MutableRefObject<number>, t
 };
 
 // --- Meteor System ---
-const ShootingMeteors = ({ theme }: { theme: ThemeMode }) => {
+const ShootingMeteors = ({ theme }: { theme: Theme }) => {
     const meteorRef = useRef<THREE.Group>(null);
     const [meteors] = useState(() => Array.from({ length: 5 }).map(() => ({
         pos: new THREE.Vector3(
@@ -359,7 +373,7 @@ const ShootingMeteors = ({ theme }: { theme: ThemeMode }) => {
                 <mesh key={i}>
                     <cylinderGeometry args={[0.05, 0, 8, 4]} />
                     <meshBasicMaterial 
-                        color={theme === 'warm' ? "#FFF" : "#00FFFF"} 
+                        color={theme.particles.meteors} 
                         transparent 
                         opacity={0.6} 
                         blending={THREE.AdditiveBlending} 
@@ -372,125 +386,75 @@ const ShootingMeteors = ({ theme }: { theme: ThemeMode }) => {
 }
 
 // --- Gold Dust ---
-const GoldDust = ({ brightness, explodeRef, theme }: { brightness: number, explodeRef: React.MutableRefObject<number>, theme: ThemeMode }) => {
-    const count = 1500;
+// Simulated on the GPU (see shaders/goldDustSimulation); `size` x `size` particles
+const GoldDust = ({ brightness, explodeRef, theme, size }: { brightness: number, explodeRef: React.MutableRefObject<number>, theme: Theme, size: number }) => {
     const meshRef = useRef<THREE.Points>(null);
-    const geometryRef = useRef<THREE.BufferGeometry>(null);
-    const { initialPositions, velocities } = useMemo(() => {
-        const pos = new Float32Array(count * 3);
-        const vel = new Float32Array(count * 3);
-        for(let i=0; i<count; i++) {
-            pos[i*3] = (Math.random() - 0.5) * 40;
-            pos[i*3+1] = (Math.random() - 0.5) * 40;
-            pos[i*3+2] = (Math.random() - 0.5) * 30; 
-            vel[i*3] = (Math.random() - 0.5) * 0.02;
-            vel[i*3+1] = (Math.random() - 0.5) * 0.02;
-            vel[i*3+2] = (Math.random() - 0.5) * 0.02;
+    const { camera, gl } = useThree();
+    const simulation = useMemo(() => {
+        try {
+            return createGoldDustSimulation(gl, size, MAX_TRACKED_HANDS);
+        } catch (e) {
+            // No float render targets: the dust is decoration, the scene works without it
+            console.error("Gold dust simulation unavailable:", e);
+            return null;
         }
-        return { initialPositions: pos, velocities: vel };
-    }, []);
-    const renderPositions = useMemo(() => new Float32Array(initialPositions), [initialPositions]);
+    }, [gl, size]);
+    const material = useMemo(() => createGoldDustMaterial(0.2), []);
+    const placeholderPositions = useMemo(() => new Float32Array((simulation?.count ?? 0) * 3), [simulation]);
+    const drawingBufferSize = useMemo(() => new THREE.Vector2(), []);
 
-    // Use a local vec3 to track cursor/hand attraction point
-    const attractionPoint = useRef(new THREE.Vector3(0, 0, 0));
-    const { camera, pointer } = useThree();
-
-    useFrame((state, delta) => {
-        if (!meshRef.current || !geometryRef.current) return;
-        const explodeFactor = explodeRef.current;
-        const expansionScale = 1.0 + (explodeFactor * 2.5); 
-        const driftFactor = explodeFactor;
+    useEffect(() => () => {
+        simulation?.dispose();
+        material.dispose();
+    }, [simulation, material]);
 
-        // Get Vision Data from Store
-        const { isHandDetected, handPosition } = useVisionStore.getState();
+    // One attraction point per cursor slot
+    const attractionPoints = useRef(Array.from({ length: MAX_TRACKED_HANDS }, () => new THREE.Vector3(0, 0, 0)));
+    const activePoints = useRef<THREE.Vector3[]>([]);
+    const wasActive = useRef<boolean[]>([]);
 
-        // Calculate Attraction Target
-        if (isHandDetected) {
-            // Hand Mode: Stronger attraction to hand
-            attractionPoint.current.lerp(handPosition, 0.1);
-        } else {
-            // Mouse Mode: Project mouse to Z=0 plane
-            const vec = new THREE.Vector3(pointer.x, pointer.y, 0.5);
-            vec.unproject(camera);
-            const dir = vec.sub(camera.position).normalize();
-            const distance = -camera.position.z / dir.z;
-            const pos = camera.position.clone().add(dir.multiplyScalar(distance));
-            attractionPoint.current.lerp(pos, 0.1);
+    useFrame((state, delta) => {
+        if (!meshRef.current || !simulation) return;
+
+        // Calculate Attraction Targets (every cursor, projected to Z=0 plane)
+        const cursors = selectCursors(useInputStore.getState());
+        const isHandDetected = cursors[0]?.source === 'hand';
+        const active = activePoints.current;
+        active.length = 0;
+        const nowActive: boolean[] = [];
+        for (const { slot, position } of cursors) {
+            const point = attractionPoints.current[slot];
+            const target = projectToPlaneZ(position, camera, 0);
+            if (wasActive.current[slot]) point.lerp(target, 0.1);
+            else point.copy(target);
+            nowActive[slot] = true;
+            active.push(point);
         }
+        wasActive.current = nowActive;
+
+        // Attract if close enough or if hand detected (stronger pull)
+        simulation.update(delta, {
+            explode: explodeRef.current,
+            attractors: active,
+            attractRange: isHandDetected ? 400 : 100,
+            attractStrength: isHandDetected ? 0.02 : 0.005,
+        });
 
-        const attrPos = attractionPoint.current;
-
-        for(let i=0; i<count; i++) {
-            const ix = i*3;
-            const iy = i*3+1;
-            const iz = i*3+2;
-            let targetX = initialPositions[ix] * expansionScale;
-            let targetY = initialPositions[iy] * expansionScale;
-            let targetZ = initialPositions[iz] * expansionScale;
-
-            // Base drift logic
-            if (driftFactor > 0.1) {
-                velocities[ix] += (Math.random() - 0.5) * 0.005;
-                velocities[iy] += (Math.random() - 0.5) * 0.005;
-                velocities[iz] += (Math.random() - 0.5) * 0.005;
-            }
-
-            // Attraction Logic (Magical Gold Dust)
-            const currentX = renderPositions[ix];
-            const currentY = renderPositions[iy];
-            const currentZ = renderPositions[iz];
-
-            // Dist to attraction point
-            const dx = attrPos.x - currentX;
-            const dy = attrPos.y - currentY;
-            const dz = attrPos.z - currentZ;
-            const distSq = dx*dx + dy*dy + dz*dz;
-            
-            // Attract if close enough or if hand detected (stronger pull)
-            const attractRange = isHandDetected ? 400 : 100;
-            const attractStrength = isHandDetected ? 0.02 : 0.005;
-
-            if (distSq < attractRange) {
-                 velocities[ix] += dx * attractStrength;
-                 velocities[iy] += dy * attractStrength;
-                 velocities[iz] += dz * attractStrength;
-            }
-
-            // Return to base shape spring
-            const springStrength = 0.02 - (explodeFactor * 0.015); 
-
-            velocities[ix] += (targetX - currentX) * springStrength;
-            velocities[iy] += (targetY - currentY) * springStrength;
-            velocities[iz] += (targetZ - currentZ) * springStrength;
-
-            renderPositions[ix] += velocities[ix];
-            renderPositions[iy] += velocities[iy];
-            renderPositions[iz] += velocities[iz];
-
-            const friction = explodeFactor < 0.1 ? 0.92 : 0.96;
-            velocities[ix] *= friction;
-            velocities[iy] *= friction;
-            velocities[iz] *= friction;
-        }
-        geometryRef.current.attributes.position.needsUpdate = true;
+        material.uniforms.uPositions.value = simulation.getPositionTexture();
+        material.uniforms.uColor.value.set(theme.particles.dust);
+        material.uniforms.uOpacity.value = 0.6 * brightness;
+        material.uniforms.uScale.value = state.gl.getDrawingBufferSize(drawingBufferSize).y * 0.5;
         meshRef.current.rotation.y += delta * 0.02;
     });
 
+    if (!simulation) return null;
+
     return (
-        <points ref={meshRef} frustumCulled={false}>
-            <bufferGeometry ref={geometryRef}>
-                <bufferAttribute attach="attributes-position" count={count} array={renderPositions} itemSize={3} />
+        <points ref={meshRef} frustumCulled={false} material={material}>
+            <bufferGeometry key={simulation.count}>
+                <bufferAttribute attach="attributes-position" count={simulation.count} array={placeholderPositions} itemSize={3} />
+                <bufferAttribute attach="attributes-reference" count={simulation.count} array={simulation.references} itemSize={2} />
             </bufferGeometry>
-            <PointMaterial 
-                transparent 
-                color={theme === 'warm' ? "#FDB931" : "#E0F7FA"} 
-                size={0.2} 
-                sizeAttenuation={true} 
-                depthWrite={false} 
-                blending={THREE.AdditiveBlending} 
-                opacity={0.6 * brightness} 
-                toneMapped={false} 
-            />
         </points>
     );
 };
@@ -499,45 +463,123 @@ const GoldDust = ({ brightness, explodeRef, theme }: { brightness: number, explo
 const useGodHandControls = (
     ref: React.RefObject<THREE.Group>, 
     visualExplodeFactor: number,
-    isGalleryMode: boolean
+    isGalleryMode: boolean,
+    parallaxMode: ParallaxMode
 ) => {
     const { camera } = useThree();
     const smoothedHand = useRef(new THREE.Vector2(0, 0));
+
+    // Head parallax: offset in camera space, removed and re-applied each frame so orbiting still works
+    const headOffset = useRef(new THREE.Vector3());
+    const headOffsetTarget = useRef(new THREE.Vector3());
+
+    // Two-hand pinch: snapshot at pinch start, twist offset survives after release
+    const dualPinchStart = useRef<{ distance: number, angle: number, cameraDistance: number, twistOffset: number } | null>(null);
+    const twistOffset = useRef(0);
+    const readIntents = useMemo(() => createIntentReader(), []);
+
+    useGestureEvent('gesturestart', ({ gesture }) => {
+        if (gesture !== GestureState.DUAL_PINCH) return;
+        const { pinchDistance, pinchAngle } = useVisionStore.getState();
+        dualPinchStart.current = {
+            distance: pinchDistance,
+            angle: pinchAngle,
+            cameraDistance: camera.position.length(),
+            twistOffset: twistOffset.current
+        };
+    });
+    useGestureEvent('gestureend', ({ gesture }) => {
+        if (gesture === GestureState.DUAL_PINCH) dualPinchStart.current = null;
+    });
     
     useFrame((state, delta) => {
-        if (!ref.current || isGalleryMode) return; 
+        // Rotate intents (keyboard etc.) twist the tree; in gallery mode they spin the ring instead
+        for (const intent of readIntents()) {
+            if (intent.type === 'rotate' && !isGalleryMode) twistOffset.current += intent.amount ?? 0;
+        }
+        if (!ref.current) return;
+        if (isGalleryMode) {
+            // Ease the head offset out rather than leave it baked into the camera
+            camera.position.sub(headOffset.current);
+            headOffset.current.lerp(headOffsetTarget.current.set(0, 0, 0), Math.min(1, delta * 3.0));
+            camera.position.add(headOffset.current);
+            return;
+        }
 
-        const { isHandDetected, handPosition } = useVisionStore.getState();
+        const { isHandDetected, handScreenPosition, handDepth, gesture, pinchDistance, pinchAngle, isHeadDetected, headPosition } = useVisionStore.getState();
+        const influence = THREE.MathUtils.lerp(1.0, 0.3, visualExplodeFactor);
+        const MAX_ANGLE = Math.PI * 0.5; 
+
+        // --- Dual Pinch: Zoom (hand spread) + Twist (hand line angle) ---
+        const start = dualPinchStart.current;
+        if (isHandDetected && gesture === GestureState.DUAL_PINCH && start && start.distance > 0 && pinchDistance > 0) {
+
+            // Spreading the hands apart pulls the camera in
+            const targetDistance = THREE.MathUtils.clamp(
+                start.cameraDistance * (start.distance / pinchDistance),
+                CAMERA_MIN_DISTANCE,
+                CAMERA_MAX_DISTANCE
+            );
+            camera.position.setLength(THREE.MathUtils.lerp(camera.position.length(), targetDistance, delta * 5.0));
+
+            twistOffset.current = start.twistOffset + THREE.MathUtils.euclideanModulo(pinchAngle - start.angle + Math.PI, Math.PI * 2) - Math.PI;
+            const targetRotationY = smoothedHand.current.x * MAX_ANGLE * influence + twistOffset.current;
+            ref.current.rotation.y = THREE.MathUtils.lerp(ref.current.rotation.y, targetRotationY, delta * 8.0);
+            camera.lookAt(0, 0, 0);
+            return;
+        }
 
         let targetX = 0;
         let targetY = 0;
 
         if (isHandDetected) {
-            targetX = THREE.MathUtils.clamp(handPosition.x / 10, -1, 1);
-            targetY = THREE.MathUtils.clamp(handPosition.y / 10, -1, 1);
+            // Edges of the calibrated reach give full rotation / parallax
+            targetX = THREE.MathUtils.clamp(handScreenPosition.x, -1, 1);
+            targetY = THREE.MathUtils.clamp(handScreenPosition.y, -1, 1);
         } 
 
         smoothedHand.current.x = THREE.MathUtils.lerp(smoothedHand.current.x, targetX, delta * 5);
         smoothedHand.current.y = THREE.MathUtils.lerp(smoothedHand.current.y, targetY, delta * 5);
 
-        const influence = THREE.MathUtils.lerp(1.0, 0.3, visualExplodeFactor);
+        // --- Head Parallax: "window into the scene", works without any gesture ---
+        // Work on the un-shifted camera below, then re-apply the (eased) offset
+        camera.position.sub(headOffset.current);
+        if (parallaxMode === 'head' && isHeadDetected) {
+            headOffsetTarget.current
+                .set(headPosition.x * HEAD_PARALLAX_X, headPosition.y * HEAD_PARALLAX_Y, 0)
+                .applyQuaternion(camera.quaternion);
+        } else {
+            headOffsetTarget.current.set(0, 0, 0);
+        }
+        headOffset.current.lerp(headOffsetTarget.current, Math.min(1, delta * 3.0));
 
         if (isHandDetected) {
-            const MAX_ANGLE = Math.PI * 0.5; 
-            const targetRotationY = smoothedHand.current.x * MAX_ANGLE * influence;
+            const targetRotationY = smoothedHand.current.x * MAX_ANGLE * influence + twistOffset.current;
             ref.current.rotation.y = THREE.MathUtils.lerp(ref.current.rotation.y, targetRotationY, delta * 4.0);
 
-            // Subtle parallax on camera Y
-            const PARALLAX_HEIGHT = 4.0 * influence; 
+            // Subtle parallax on camera Y (head mode shifts the whole camera instead)
+            const PARALLAX_HEIGHT = parallaxMode === 'hand' ? 4.0 * influence : 0;
             const targetCamY = -(smoothedHand.current.y * PARALLAX_HEIGHT);
             camera.position.y = THREE.MathUtils.lerp(camera.position.y, targetCamY, delta * 2.0);
-            camera.lookAt(0, 0, 0);
+
+            // Push / Pull Dolly: holding the hand forward keeps moving in, like the mouse wheel
+            const depthOutsideDeadzone = Math.sign(handDepth) * Math.max(0, Math.abs(handDepth) - HAND_DEPTH_DEADZONE);
+            if (depthOutsideDeadzone !== 0) {
+                const dollySpeed = (depthOutsideDeadzone / (1 - HAND_DEPTH_DEADZONE)) * HAND_DOLLY_SPEED;
+                camera.position.setLength(THREE.MathUtils.clamp(
+                    camera.position.length() - dollySpeed * delta,
+                    CAMERA_MIN_DISTANCE,
+                    CAMERA_MAX_DISTANCE
+                ));
+            }
         } else {
             // Idle rotation
             ref.current.rotation.y += delta * 0.05;
             camera.position.y = THREE.MathUtils.lerp(camera.position.y, 0, delta * 1.0);
-            camera.lookAt(0, 0, 0);
         }
+
+        camera.position.add(headOffset.current);
+        camera.lookAt(0, 0, 0);
     });
 };
 
@@ -551,20 +593,17 @@ const PhotoItem: React.FC<{
     isSnapRef: React.MutableRefObject<boolean>;
     galleryLerpRef: React.MutableRefObject<number>; // 0 = Tree, 1 = Gallery
     galleryRotationRef: React.MutableRefObject<number>;
-    theme: ThemeMode;
-}> = ({ url, index, total, parentRef, explodeRef, isSnapRef, galleryLerpRef, galleryRotationRef, theme }) => {
+    theme: Theme;
+    shape: TreeShape;
+}> = ({ url, index, total, parentRef, explodeRef, isSnapRef, galleryLerpRef, galleryRotationRef, theme, shape }) => {
     const meshRef = useRef<THREE.Group>(null);
     const [hovered, setHover] = useState(false);
 
     // Calculate TREE position (Spiral)
     const { initialPos, initialRot, surfaceNormal } = useMemo(() => {
         const t = index / Math.max(total - 1, 1);
-        const y = THREE.MathUtils.lerp(TREE_HEIGHT/2 - 2, -TREE_HEIGHT/2 + 2, t);
-        const rSurface = getTreeRadiusAtHeight(y);
-        const r = rSurface + 0.8; 
-        const loops = 5; 
-        const theta = t * loops * Math.PI * 2;
-        const pos = new THREE.Vector3(r * Math.cos(theta), y, r * Math.sin(theta));
+        const pos = getPhotoSpiralPosition(shape, t);
+        const y = pos.y;
 
         const dummy = new THREE.Object3D();
         dummy.position.copy(pos);
@@ -578,7 +617,7 @@ const PhotoItem: React.FC<{
             initialRot: dummy.quaternion.clone(),
             surfaceNormal: pos.clone().normalize().setY(0).normalize() 
         };
-    }, [index, total]);
+    }, [index, total, shape]);
 
     useFrame((state, delta) => {
         if (!meshRef.current) return;
@@ -649,7 +688,7 @@ const PhotoItem: React.FC<{
             <mesh position={[0, 0, -0.02]}>
                 <boxGeometry args={[1.4, 1.7, 0.05]} />
                 <meshPhysicalMaterial 
-                    color={theme === 'warm' ? "#FFFFFF" : "#E0F7FA"} 
+                    color={theme.palette.photoFrame} 
                     roughness={0.4} 
                     metalness={0.0} 
                 />
@@ -663,7 +702,7 @@ const PhotoItem: React.FC<{
 const ActivePhotoOverlay: React.FC<{ 
     url: string; 
     startPos: THREE.Vector3; 
-    theme: ThemeMode;
+    theme: Theme;
     isVisible: boolean; // Controls In/Out
     onExited: () => void; // Triggered when animation completes 'Out'
 }> = ({ url, startPos, theme, isVisible, onExited }) => {
@@ -733,8 +772,8 @@ const ActivePhotoOverlay: React.FC<{
         <group renderOrder={999}>
             <group ref={meshRef}>
                  {/* Trail that appears during flight */}
-                 <Trail width={1.2} length={6} color={theme === 'warm' ? "#FFD700" : "#00FFFF"} attenuation={(t) => t * t}>
-                    <mesh><sphereGeometry args={[0.05, 8, 8]} /><meshBasicMaterial color={theme === 'warm' ? "gold" : "cyan"} transparent opacity={0} depthTest={false} /></mesh>
+                 <Trail width={1.2} length={6} color={theme.palette.glow} attenuation={(t) => t * t}>
+                    <mesh><sphereGeometry args={[0.05, 8, 8]} /><meshBasicMaterial color={theme.palette.glow} transparent opacity={0} depthTest={false} /></mesh>
                  </Trail>
                  <Float speed={2} rotationIntensity={0.1} floatIntensity={0.2} floatingRange={[-0.1, 0.1]}>
                     <mesh position={[0, 0, 0.05]} renderOrder={999}>
@@ -743,7 +782,7 @@ const ActivePhotoOverlay: React.FC<{
                             color="#FFF" 
                             roughness={0.2} 
                             metalness={0.1} 
-                            emissive={theme === 'warm' ? "#FFD700" : "#00FFFF"} 
+                            emissive={theme.palette.glow} 
                             emissiveIntensity={0.1 * (isVisible ? 1 : 0)} 
                             depthTest={false} 
                         />
@@ -763,8 +802,9 @@ const PhotoGallery: React.FC<{
     isSnapRef: React.MutableRefObject<boolean>;
     galleryLerpRef: React.MutableRefObject<number>;
     galleryRotationRef: React.MutableRefObject<number>;
-    theme: ThemeMode;
-}> = ({ photos, parentRef, visualExplodeRef, isSnapRef, galleryLerpRef, galleryRotationRef, theme }) => {
+    theme: Theme;
+    shape: TreeShape;
+}> = ({ photos, parentRef, visualExplodeRef, isSnapRef, galleryLerpRef, galleryRotationRef, theme, shape }) => {
     return (
         <group>
            {photos.length === 0 && Array.from({ length: 24 }).map((_, i) => (
@@ -779,6 +819,7 @@ const PhotoGallery: React.FC<{
                   galleryLerpRef={galleryLerpRef}
                   galleryRotationRef={galleryRotationRef}
                   theme={theme}
+                  shape={shape}
                />
            ))}
            {photos.map((url, i) => (
@@ -793,6 +834,7 @@ const PhotoGallery: React.FC<{
                   galleryLerpRef={galleryLerpRef}
                   galleryRotationRef={galleryRotationRef}
                   theme={theme}
+                  shape={shape}
                />
            ))}
         </group>
@@ -800,50 +842,45 @@ const PhotoGallery: React.FC<{
 }
 
 // --- Main Tree Scene ---
-const TreeScene: React.FC<TreeSceneProps> = ({ settings, photos, manualExplodeFactor, isGalleryMode, customWords }) => {
-  const { sourcePositions, colors } = useTreeParticles(settings.theme, settings.treeColor);
-  const renderPositions = useMemo(() => new Float32Array(sourcePositions), [sourcePositions]);
+const TreeScene: React.FC<TreeSceneProps> = ({ settings, theme, photos, isGalleryMode, customWords, quality, morphTarget }) => {
+  const { treeProfile, treeHeight, treeRadius, treeSpline } = settings;
+  const shape = useMemo(
+      () => createTreeShape({ treeProfile, treeHeight, treeRadius, treeSpline }),
+      [treeProfile, treeHeight, treeRadius, treeSpline]
+  );
+  const { sourcePositions, colors } = useTreeParticles(theme, quality.foliageCount, shape);
+  const foliageGeometryRef = useRef<THREE.BufferGeometry>(null);
+  // New arrays for the same point count still need an upload; each attribute only when it changed
+  useLayoutEffect(() => {
+      const position = foliageGeometryRef.current?.attributes.position;
+      if (position) position.needsUpdate = true;
+  }, [sourcePositions]);
+  useLayoutEffect(() => {
+      const color = foliageGeometryRef.current?.attributes.color;
+      if (color) color.needsUpdate = true;
+  }, [colors]);
+  const foliageMaterial = useMemo(() => createFoliageMaterial({ size: 0.25, expansion: EXPANSION_STRENGTH }), []);
+  useEffect(() => () => foliageMaterial.dispose(), [foliageMaterial]);
+  // Morph slots are sampled when a morph starts, so the text / logo can change freely in between
+  const morphPositions = useMemo(() => new Float32Array(quality.foliageCount * 4), [quality.foliageCount]);
+  const morphElapsedRef = useRef<number | null>(null); // Seconds into the running morph
+  const morphMatrix = useMemo(() => new THREE.Matrix4(), []);
+  const morphScale = useMemo(() => new THREE.Vector3(1, 1, 1), []);
+  const worldOrigin = useMemo(() => new THREE.Vector3(), []);
   const particleSystemRef = useRef<THREE.Points>(null);
-  const geometryRef = useRef<THREE.BufferGeometry>(null);
   const visualExplodeRef = useRef(0);
   const isSnapRef = useRef(false);
 
   // Gallery Mode Refs
   const galleryLerpRef = useRef(0);
   const galleryRotationRef = useRef(0);
+  const gallerySpinRef = useRef(0); // Pending swipe / stir rotation, eased in
   
-  // Drag Control Logic
-  const isDragging = useRef(false);
-  const prevPointerX = useRef(0);
+  // Hand, mouse, touch and keyboard all arrive as intents
   const { gl } = useThree();
-
-  useEffect(() => {
-      // Simple Drag Handler
-      const handleDown = (e: PointerEvent) => {
-          if (!isGalleryMode) return;
-          isDragging.current = true;
-          prevPointerX.current = e.clientX;
-      };
-      const handleMove = (e: PointerEvent) => {
-          if (!isDragging.current || !isGalleryMode) return;
-          const deltaX = e.clientX - prevPointerX.current;
-          galleryRotationRef.current += deltaX * 0.005; // Adjust sensitivity
-          prevPointerX.current = e.clientX;
-      };
-      const handleUp = () => {
-          isDragging.current = false;
-      };
-
-      gl.domElement.addEventListener('pointerdown', handleDown);
-      window.addEventListener('pointermove', handleMove);
-      window.addEventListener('pointerup', handleUp);
-
-      return () => {
-          gl.domElement.removeEventListener('pointerdown', handleDown);
-          window.removeEventListener('pointermove', handleMove);
-          window.removeEventListener('pointerup', handleUp);
-      }
-  }, [isGalleryMode, gl]);
+  useInputSources(gl.domElement);
+  const lastRotateTime = useRef(0);
+  const drawingBufferSize = useMemo(() => new THREE.Vector2(), []);
 
   // Animation Loop
   useFrame((state, delta) => {
@@ -851,20 +888,34 @@ const TreeScene: React.FC<TreeSceneProps> = ({ settings, photos, manualExplodeFa
       const targetGalleryLerp = isGalleryMode ? 1 : 0;
       galleryLerpRef.current = THREE.MathUtils.lerp(galleryLerpRef.current, targetGalleryLerp, delta * 2.0);
 
-      // Auto Rotate Gallery if not dragging
-      if (isGalleryMode && !isDragging.current) {
+      // Auto Rotate Gallery unless someone is turning it
+      if (isGalleryMode && performance.now() - lastRotateTime.current > 1000) {
           galleryRotationRef.current += delta * 0.1;
       }
 
-      // 2. Explode Logic - BLEND HAND + MANUAL
-      const { isHandDetected, gestureFactor } = useVisionStore.getState();
-      
-      // If hand detected, gesture factor dominates (0=Fist/Tree, 1=Open/Explode)
-      // If not, manual slider dominates
-      let effectiveTargetExplode = manualExplodeFactor;
-      if (isHandDetected) {
-          effectiveTargetExplode = Math.max(manualExplodeFactor, gestureFactor);
+      // Swipe / Stir spin
+      if (gallerySpinRef.current !== 0) {
+          const step = gallerySpinRef.current * Math.min(1, delta * 4.0);
+          galleryRotationRef.current += step;
+          gallerySpinRef.current -= step;
+          if (Math.abs(gallerySpinRef.current) < 1e-4) gallerySpinRef.current = 0;
       }
+
+      // Morph timeline: form, hold, return; the tree explodes alongside so ornaments clear the view
+      let morphAmount = 0;
+      if (morphElapsedRef.current !== null) {
+          const t = (morphElapsedRef.current += delta);
+          if (t < MORPH_FORM_TIME) morphAmount = t / MORPH_FORM_TIME;
+          else if (t < MORPH_FORM_TIME + MORPH_HOLD_TIME) morphAmount = 1;
+          else morphAmount = Math.max(0, 1 - (t - MORPH_FORM_TIME - MORPH_HOLD_TIME) / MORPH_RETURN_TIME);
+          if (morphAmount === 0 && t > MORPH_FORM_TIME) morphElapsedRef.current = null;
+      }
+      // The shape stands at the orbit target, turned to face the camera
+      morphMatrix.compose(worldOrigin, state.camera.quaternion, morphScale);
+      updateFoliageMorph(foliageMaterial, morphAmount, morphMatrix);
+
+      // 2. Explode Logic - strongest source wins (hand gesture, slider, keyboard, morph)
+      const effectiveTargetExplode = Math.max(selectExplodeTarget(useInputStore.getState()), morphAmount);
       
       const currentVal = visualExplodeRef.current;
       const isClosing = effectiveTargetExplode < currentVal;
@@ -873,20 +924,8 @@ const TreeScene: React.FC<TreeSceneProps> = ({ settings, photos, manualExplodeFa
       visualExplodeRef.current = THREE.MathUtils.lerp(currentVal, effectiveTargetExplode, lerpSpeed);
       const vFactor = visualExplodeRef.current;
 
-      // 3. Particles Update
-      if (geometryRef.current) {
-          const expansionStrength = 9.0; 
-          for(let i=0; i<COUNT; i++) {
-              const ix = i*3; const iy = i*3+1; const iz = i*3+2;
-              const ox = sourcePositions[ix]; const oy = sourcePositions[iy]; const oz = sourcePositions[iz];
-              const dist = Math.sqrt(ox*ox + oz*oz);
-              const nx = ox / (dist || 1); const nz = oz / (dist || 1);
-              renderPositions[ix] = ox + (nx * vFactor * expansionStrength);
-              renderPositions[iy] = oy * (1 + vFactor * 0.3); 
-              renderPositions[iz] = oz + (nz * vFactor * expansionStrength);
-          }
-          geometryRef.current.attributes.position.needsUpdate = true;
-      }
+      // 3. Particles Update (displacement happens in the foliage shader)
+      updateFoliageMaterial(foliageMaterial, vFactor, 0.8 * settings.particleBrightness, state.gl.getDrawingBufferSize(drawingBufferSize).y);
   });
 
   const groupRef = useRef<THREE.Group>(null);
@@ -894,75 +933,80 @@ const TreeScene: React.FC<TreeSceneProps> = ({ settings, photos, manualExplodeFa
   const [overlayVisible, setOverlayVisible] = useState(false);
   
   const sequenceCounter = useRef(0);
-  const lastActionTime = useRef(0);
-  const wasGesturing = useRef(false);
-  const idleTimer = useRef(0);
   const [summonStartPos, setSummonStartPos] = useState<THREE.Vector3>(new THREE.Vector3(0,0,0));
+  const readIntents = useMemo(() => createIntentReader(), []);
+  const displayCount = photos.length > 0 ? photos.length : 24;
 
-  useFrame((state, delta) => {
-      if (isGalleryMode) {
-          if (featuredIndex !== null) setFeaturedIndex(null);
+  const summonPhoto = (index: number) => {
+      setFeaturedIndex(index);
+      
+      if (groupRef.current) {
+          // Calculate spawn position
+          const t = index / Math.max(displayCount - 1, 1);
+          const localPos = getPhotoSpiralPosition(shape, t);
+          const vFactor = visualExplodeRef.current;
+          const normal = localPos.clone().setY(0).normalize();
+          localPos.addScaledVector(normal, vFactor * EXPANSION_STRENGTH);
+          localPos.y *= (1 + vFactor * 0.3);
+          localPos.applyMatrix4(groupRef.current.matrixWorld); 
+          setSummonStartPos(localPos);
+      }
+      sequenceCounter.current = index + 1; // Victory continues from here
+      setOverlayVisible(true);
+  };
+
+  const startMorph = () => {
+      if (!morphTarget || morphElapsedRef.current !== null) return;
+      if (!sampleMorphTarget(morphTarget, morphPositions)) return;
+      const attribute = foliageGeometryRef.current?.attributes.morphPosition;
+      if (attribute) attribute.needsUpdate = true;
+      morphElapsedRef.current = 0;
+  };
+
+  // Discrete intents: gallery ring in gallery mode, photo overlay otherwise
+  const handleIntent = (intent: InputIntent) => {
+      if (intent.type === 'morph') {
+          if (!isGalleryMode) startMorph();
           return;
       }
-
-      const now = Date.now();
-      const { gesture, isHandDetected } = useVisionStore.getState(); 
-      const isVictory = gesture === GestureState.VICTORY;
-      const isFist = gesture === GestureState.CLOSED_FIST;
-      const isOpen = gesture === GestureState.OPEN_PALM;
-      
-      // --- TRIGGER SUMMON (Victory) ---
-      if (isVictory && !wasGesturing.current && (now - lastActionTime.current > 1000)) {
-          // Only trigger if not already showing one, OR if we want to switch
-          if (!overlayVisible) {
-              const displayCount = photos.length > 0 ? photos.length : 24;
-              const nextIdx = sequenceCounter.current % displayCount;
-              setFeaturedIndex(nextIdx);
-              
-              if (groupRef.current) {
-                  // Calculate spawn position
-                  const t = nextIdx / Math.max(displayCount - 1, 1);
-                  const y = THREE.MathUtils.lerp(TREE_HEIGHT/2 - 2, -TREE_HEIGHT/2 + 2, t);
-                  const rSurface = getTreeRadiusAtHeight(y);
-                  const r = rSurface + 0.8;
-                  const theta = t * 5 * Math.PI * 2;
-                  const localPos = new THREE.Vector3(r * Math.cos(theta), y, r * Math.sin(theta));
-                  const vFactor = visualExplodeRef.current;
-                  const expansionStrength = 9.0; 
-                  const normal = localPos.clone().setY(0).normalize();
-                  localPos.addScaledVector(normal, vFactor * expansionStrength);
-                  localPos.y *= (1 + vFactor * 0.3);
-                  localPos.applyMatrix4(groupRef.current.matrixWorld); 
-                  setSummonStartPos(localPos);
-              }
-              sequenceCounter.current += 1;
-              lastActionTime.current = now;
-              setOverlayVisible(true);
-              idleTimer.current = 0; // Reset idle timer
+      if (isGalleryMode) {
+          const anglePerPhoto = (Math.PI * 2) / Math.max(displayCount, 8);
+          if (intent.type === 'next') gallerySpinRef.current += anglePerPhoto;
+          else if (intent.type === 'previous') gallerySpinRef.current -= anglePerPhoto;
+          else if (intent.type === 'spin') gallerySpinRef.current += Math.PI * 2;
+          else if (intent.type === 'rotate') {
+              galleryRotationRef.current += intent.amount ?? 0;
+              lastRotateTime.current = performance.now();
           }
+          return;
       }
 
-      // --- TRIGGER DISMISS (Fist / Open / Time) ---
-      if (overlayVisible) {
-          // 1. Explicit Dismissal
-          if (isFist || isOpen) {
-               setOverlayVisible(false);
-          }
-          // 2. Timeout Dismissal
-          if (!isVictory) {
-               idleTimer.current += delta;
-               if (idleTimer.current > 4.0) { // 4 Seconds timeout if not holding gesture
-                   setOverlayVisible(false);
-               }
-          } else {
-              idleTimer.current = 0; // Reset if user does Victory again
-          }
+      if (intent.type === 'summon') {
+          // Sources only emit on press, so a held pose or key never re-summons; ignore it while one is up
+          if (!overlayVisible) summonPhoto(sequenceCounter.current % displayCount);
+          return;
       }
+      if (!overlayVisible || featuredIndex === null) return;
+      if (intent.type === 'next') summonPhoto((featuredIndex + 1) % displayCount);
+      else if (intent.type === 'previous') summonPhoto((featuredIndex - 1 + displayCount) % displayCount);
+      else if (intent.type === 'dismiss') setOverlayVisible(false);
+  };
+
+  useFrame(() => {
+      for (const intent of readIntents()) handleIntent(intent);
 
-      wasGesturing.current = isVictory;
+      if (isGalleryMode && featuredIndex !== null) setFeaturedIndex(null);
   });
 
-  useGodHandControls(groupRef, visualExplodeRef.current, isGalleryMode);
+  // --- Timeout Dismissal: counts from the summon, or from the release of the held pose / key / button ---
+  const summonHeld = useInputStore(selectSummonHeld);
+  useEffect(() => {
+      if (!overlayVisible || summonHeld || isGalleryMode) return;
+      const timer = setTimeout(() => setOverlayVisible(false), PHOTO_TIMEOUT_MS);
+      return () => clearTimeout(timer);
+  }, [overlayVisible, summonHeld, isGalleryMode, featuredIndex]);
+
+  useGodHandControls(groupRef, visualExplodeRef.current, isGalleryMode, settings.parallaxMode);
 
   const activePhotoUrl = useMemo(() => {
       if (featuredIndex === null) return null;
@@ -972,41 +1016,41 @@ const TreeScene: React.FC<TreeSceneProps> = ({ settings, photos, manualExplodeFa
 
   return (
     <>
-      <Environment preset={settings.theme === 'warm' ? "city" : "dawn"} />
-      <Stars radius={80} depth={50} count={8000} factor={6} saturation={0} fade speed={0.5} />
-      <ShootingMeteors theme={settings.theme} />
+      {quality.environment && <Environment preset={theme.environment} />}
+      <Stars radius={80} depth={50} count={quality.starCount} factor={6} saturation={0} fade speed={0.5} />
+      <ShootingMeteors theme={theme} />
       <Sparkles 
-        count={500} 
+        count={quality.sparkleCount} 
         scale={40} 
         size={4} 
         speed={0.4} 
         opacity={0.5} 
-        color={settings.theme === 'warm' ? "#FFF" : "#A5F2F3"} 
+        color={theme.particles.sparkles} 
       />
 
       {/* NEW: Magic Wand / Interactive Light Cursor */}
-      <MagicWand theme={settings.theme} />
+      {Array.from({ length: MAX_TRACKED_HANDS }, (_, slot) => <MagicWand key={slot} slot={slot} theme={theme} />)}
 
       <OrbitControls 
           enablePan={false} 
           enableZoom={true} 
           enableRotate={!isGalleryMode} 
-          minDistance={10} 
-          maxDistance={50} 
+          minDistance={CAMERA_MIN_DISTANCE} 
+          maxDistance={CAMERA_MAX_DISTANCE} 
       />
       
-      <ambientLight intensity={0.2} color={settings.theme === 'warm' ? "#001100" : "#000022"} />
+      <ambientLight intensity={0.2} color={theme.lights.ambient} />
       <pointLight 
         position={[20, 10, 20]} 
         intensity={3.0} 
-        color={settings.theme === 'warm' ? "#FFD700" : "#00FFFF"} 
+        color={theme.lights.key} 
         distance={60} 
         decay={2} 
       />
       <pointLight 
         position={[-20, 5, 15]} 
         intensity={2.0} 
-        color={settings.theme === 'warm' ? "#00ff88" : "#9370DB"} 
+        color={theme.lights.fill} 
         distance={50} 
         decay={2} 
       />
@@ -1014,25 +1058,16 @@ const TreeScene: React.FC<TreeSceneProps> = ({ settings, photos, manualExplodeFa
 
       <group ref={groupRef} position={[0, -2, 0]}>
         {/* 1. Foliage - Renders Immediately */}
-        <points ref={particleSystemRef} frustumCulled={false}>
-             <bufferGeometry ref={geometryRef}>
-                <bufferAttribute attach="attributes-position" count={COUNT} array={renderPositions} itemSize={3} />
-                <bufferAttribute attach="attributes-color" count={COUNT} array={colors} itemSize={3} />
+        <points ref={particleSystemRef} frustumCulled={false} material={foliageMaterial}>
+             <bufferGeometry key={quality.foliageCount} ref={foliageGeometryRef}>
+                <bufferAttribute attach="attributes-position" count={quality.foliageCount} array={sourcePositions} itemSize={3} />
+                <bufferAttribute attach="attributes-color" count={quality.foliageCount} array={colors} itemSize={3} />
+                <bufferAttribute attach="attributes-morphPosition" count={quality.foliageCount} array={morphPositions} itemSize={4} />
              </bufferGeometry>
-             <PointMaterial 
-                transparent 
-                vertexColors 
-                size={0.25} 
-                sizeAttenuation={true} 
-                depthWrite={false} 
-                blending={THREE.AdditiveBlending} 
-                toneMapped={false} 
-                opacity={0.8 * settings.particleBrightness} 
-             />
         </points>
 
         {/* 2. Ornaments - Renders Immediately */}
-        <DynamicOrnaments explodeRef={visualExplodeRef} theme={settings.theme} />
+        <DynamicOrnaments key={quality.decoCount} explodeRef={visualExplodeRef} palette={theme.palette.ornaments} count={quality.decoCount} shape={shape} />
         
         {/* 3. Photos - Suspended to prevent blocking */}
         <Suspense fallback={null}>
@@ -1043,25 +1078,26 @@ const TreeScene: React.FC<TreeSceneProps> = ({ settings, photos, manualExplodeFa
                 isSnapRef={isSnapRef}
                 galleryLerpRef={galleryLerpRef}
                 galleryRotationRef={galleryRotationRef}
-                theme={settings.theme}
+                theme={theme}
+                shape={shape}
              />
         </Suspense>
         
         {/* 4. Topper */}
-        <mesh position={[0, TREE_HEIGHT / 2 + 0.6, 0]}>
+        <mesh position={[0, shape.height / 2 + 0.6, 0]}>
             <octahedronGeometry args={[1.5, 0]} />
-            <meshBasicMaterial color={settings.theme === 'warm' ? "#FFD700" : "#00FFFF"} toneMapped={false} />
-            <Sparkles count={20} scale={3} size={10} speed={2} color={settings.theme === 'warm' ? "#FFD700" : "#FFFFFF"} />
-            <pointLight intensity={5} distance={20} color={settings.theme === 'warm' ? "#FFD700" : "#00FFFF"} decay={2} />
+            <meshBasicMaterial color={theme.palette.glow} toneMapped={false} />
+            <Sparkles count={20} scale={3} size={10} speed={2} color={theme.particles.topperSparkles} />
+            <pointLight intensity={5} distance={20} color={theme.palette.glow} decay={2} />
         </mesh>
       </group>
       
       {/* 5. Shockwave Ring on Explode */}
-      <Shockwave explodeRef={visualExplodeRef} theme={settings.theme} />
+      <Shockwave explodeRef={visualExplodeRef} theme={theme} />
       
       {/* 6. Floating Words - Suspended & Font Removed */}
       <Suspense fallback={null}>
-         <FloatingWords theme={settings.theme} customWords={customWords} />
+         <FloatingWords theme={theme} customWords={customWords} />
       </Suspense>
 
       <Suspense fallback={null}>
@@ -1073,13 +1109,13 @@ const TreeScene: React.FC<TreeSceneProps> = ({ settings, photos, manualExplodeFa
                onExited={() => setFeaturedIndex(null)}
                isVisible={overlayVisible}
                startPos={summonStartPos}
-               theme={settings.theme}
+               theme={theme}
             />
         )}
       </Suspense>
       
       {/* 7. Gold/Ice Dust */}
-      <GoldDust brightness={settings.particleBrightness} explodeRef={visualExplodeRef} theme={settings.theme} />
+      <GoldDust brightness={settings.particleBrightness} explodeRef={visualExplodeRef} theme={theme} size={quality.goldDustSize} />
     </>
   );
 };
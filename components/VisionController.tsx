@@ -1,64 +1,249 @@
-import React, { useEffect, useRef } from 'react';
-import { useHandTracking } from '../hooks/useHandTracking';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Circle, Square, Play, X, Hand, Crosshair, Video, RotateCcw } from 'lucide-react';
+import { useHandTracking, HandTrackingResult } from '../hooks/useHandTracking';
+import { useHeadTracking } from '../hooks/useHeadTracking';
+import { useCamera } from '../hooks/useCamera';
+import { useCustomGestures } from '../hooks/useCustomGestures';
+import GestureTrainer from './GestureTrainer';
+import CalibrationWizard from './CalibrationWizard';
+import CameraSettings from './CameraSettings';
+import HandSkeletonOverlay from './HandSkeletonOverlay';
 import { useVisionStore } from '../store';
+import { CameraPreferences, GestureState, HandCalibration, HandFrame, HandOwnership, HandRecording } from '../types';
+import { DEFAULT_CALIBRATION, loadCalibration, saveCalibration } from '../vision/handCalibration';
+import { OneEuroParams } from '../vision/oneEuroFilter';
+import { CAMERA_STATUS_MESSAGES, loadCameraPreferences, saveCameraPreferences } from '../vision/cameraDevices';
+import { gestureEvents } from '../vision/gestureEvents';
+import {
+  createLandmarkRecorder, createReplayPlayer, downloadRecording, fetchRecording,
+  getReplayUrlFromLocation, LandmarkRecorder, parseRecording, ReplayPlayer
+} from '../vision/landmarkRecording';
 
 interface VisionControllerProps {
   active: boolean;
+  smoothing: OneEuroParams;
+  headTracking: boolean; // Also track the viewer's face for head parallax
+  ownership: HandOwnership; // Which hand drives the gestures when several are in view
 }
 
-const VisionController: React.FC<VisionControllerProps> = ({ active }) => {
+const VisionController: React.FC<VisionControllerProps> = ({ active, smoothing, headTracking, ownership }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const requestRef = useRef<number>(0);
   const updateVisionData = useVisionStore((state) => state.updateVisionData);
+  const visionStatus = useVisionStore((state) => state.visionStatus);
+  const visionDelegate = useVisionStore((state) => state.visionDelegate);
+  const visionMessage = useVisionStore((state) => state.visionMessage);
+  const headTrackingStatus = useVisionStore((state) => state.headTrackingStatus);
+  const isHeadDetected = useVisionStore((state) => state.isHeadDetected);
   
-  const { loaded, detect } = useHandTracking(videoRef, active);
+  // Recording / Replay
+  const recorderRef = useRef<LandmarkRecorder | null>(null);
+  const replayRef = useRef<ReplayPlayer | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [replayName, setReplayName] = useState<string | null>(null);
 
-  // Camera stream setup
-  useEffect(() => {
-    if (active && loaded && videoRef.current) {
-      navigator.mediaDevices.getUserMedia({ video: { width: 320, height: 240, facingMode: 'user' } })
-        .then((stream) => {
-          if (videoRef.current) {
-            videoRef.current.srcObject = stream;
-            videoRef.current.play();
-          }
-        })
-        .catch((err) => console.error("Camera denied:", err));
+  // Side panels above the preview (one at a time)
+  const [panel, setPanel] = useState<'trainer' | 'camera' | null>(null);
+  const togglePanel = (next: 'trainer' | 'camera') => setPanel(current => current === next ? null : next);
+
+  // Webcam (device / resolution remembered across sessions)
+  const [cameraPreferences, setCameraPreferences] = useState<CameraPreferences>(loadCameraPreferences);
+  const camera = useCamera(videoRef, active, cameraPreferences);
+  const cameraProblem = active ? CAMERA_STATUS_MESSAGES[camera.status] : undefined;
+
+  const changeCameraPreferences = (next: CameraPreferences) => {
+    saveCameraPreferences(next);
+    setCameraPreferences(next);
+  };
+
+  // Custom Gestures (rule stays registered even while the trainer is closed)
+  const customGestures = useCustomGestures();
+  const trainerTapRef = useRef<((frame: HandFrame) => void) | null>(null);
+
+  // Hand Range Calibration
+  const [calibration, setCalibration] = useState<HandCalibration>(loadCalibration);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const calibrationTapRef = useRef<((frame: HandFrame) => void) | null>(null);
+
+  const finishCalibration = useCallback((next: HandCalibration | null) => {
+    saveCalibration(next);
+    setCalibration(next ?? DEFAULT_CALIBRATION);
+    setShowCalibration(false);
+  }, []);
+
+  const { loaded, processFrame, resetTracking } = useHandTracking(videoRef, active, {
+    calibration,
+    smoothing,
+    ownership,
+    paused: replayName !== null, // A replay owns the filters and debounce until it stops
+    onFrame: (frame) => {
+      recorderRef.current?.push(frame);
+      trainerTapRef.current?.(frame);
+      calibrationTapRef.current?.(frame);
+    },
+    // Live results arrive from the recognition worker at the detection rate
+    onResult: (result) => publish(result)
+  });
+
+  // Head parallax shares the camera stream but not the hand model, so it keeps running while hands load or replay
+  const { detect: detectHead } = useHeadTracking(videoRef, active && headTracking);
+
+  const publish = (result: HandTrackingResult) => {
+    updateVisionData({
+        isHandDetected: result.isDetected,
+        handPosition: result.worldPosition,
+        handScreenPosition: result.screenPosition,
+        handDepth: result.depth,
+        handedness: result.handedness,
+        gestureScore: result.gestureScore,
+        landmarkVisibility: result.landmarkVisibility,
+        gesture: result.gesture,
+        gestureFactor: result.gestureFactor,
+        pinchDistance: result.pinchDistance,
+        pinchAngle: result.pinchAngle,
+        trackedHands: result.hands,
+        rawGesture: result.rawGesture,
+        gestureStability: result.stability,
+        gestureRejected: result.rejected,
+        ...(result.motion ? { lastMotion: { type: result.motion, timestamp: performance.now() } } : {})
+    });
+    // After the store update, so listeners read the frame that fired the event
+    gestureEvents.update(result.gesture, result.confidence, performance.now(), result.handedness);
+  };
+
+  const startReplay = (recording: HandRecording, name: string) => {
+    resetTracking();
+    replayRef.current = createReplayPlayer(recording);
+    setReplayName(name);
+  };
+
+  const stopReplay = () => {
+    replayRef.current = null;
+    resetTracking();
+    gestureEvents.update(GestureState.IDLE, 0, performance.now());
+    updateVisionData({
+        isHandDetected: false, handDepth: 0, handedness: null, gesture: GestureState.IDLE, gestureScore: 0, pinchDistance: 0, pinchAngle: 0,
+        trackedHands: [], rawGesture: GestureState.IDLE, gestureStability: 0, gestureRejected: false, landmarkVisibility: []
+    });
+    setReplayName(null);
+  };
+
+  const toggleRecording = () => {
+    if (recorderRef.current) {
+        downloadRecording(recorderRef.current.stop());
+        recorderRef.current = null;
+        setIsRecording(false);
     } else {
-        if (videoRef.current && videoRef.current.srcObject) {
-            const stream = videoRef.current.srcObject as MediaStream;
-            stream.getTracks().forEach(track => track.stop());
-            videoRef.current.srcObject = null;
-        }
+        recorderRef.current = createLandmarkRecorder();
+        setIsRecording(true);
     }
-  }, [active, loaded]);
+  };
+
+  const handleReplayUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+        startReplay(parseRecording(await file.text()), file.name);
+    } catch (e) {
+        console.error("Invalid hand recording:", e);
+    }
+  };
+
+  // Close any open gesture so subscribers don't wait for a gestureend that never comes
+  useEffect(() => () => gestureEvents.update(GestureState.IDLE, 0, performance.now()), []);
 
-  // Detection Loop
+  // `?replay=<url>` starts a camera-free replay on load
+  useEffect(() => {
+    const url = getReplayUrlFromLocation();
+    if (!url) return;
+    fetchRecording(url)
+        .then((recording) => startReplay(recording, url))
+        .catch((err) => console.error("Failed to load replay:", err));
+  }, []);
+
+  // Render-rate loop: replay playback and head tracking (hands run in the worker)
   const loop = () => {
-    if (active && loaded) {
-        const result = detect();
-        if (result) {
-            updateVisionData({
-                isHandDetected: result.isDetected,
-                handPosition: result.worldPosition,
-                gesture: result.gesture,
-                gestureFactor: result.gestureFactor
-            });
+    if (replayRef.current) {
+        // Replay: run every due frame so the debounce sees the recorded sequence
+        const { frames, restarted } = replayRef.current.advance(performance.now());
+        if (restarted) resetTracking();
+        let result: HandTrackingResult | null = null;
+        for (const frame of frames) {
+            result = processFrame(frame);
+            // Motion events are one-frame pulses; don't lose them when catching up
+            if (result.motion) publish(result);
         }
+        if (result && !result.motion) publish(result);
     }
+    // Throttled to the detection rate; no-op until the camera is live and the face model is ready
+    const head = detectHead();
+    if (head) updateVisionData({ isHeadDetected: head.isDetected, headPosition: head.position });
     requestRef.current = requestAnimationFrame(loop);
   };
 
   useEffect(() => {
     requestRef.current = requestAnimationFrame(loop);
     return () => cancelAnimationFrame(requestRef.current);
-  }, [active, loaded, detect]);
+  }, [detectHead, processFrame]);
+
+  const isVisible = active || replayName !== null;
 
   return (
-    <div className={`absolute bottom-6 right-6 w-48 h-36 transition-all duration-500 z-50 pointer-events-none ${active ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-10'}`}>
+    <div className={`absolute bottom-6 right-6 w-48 h-36 transition-all duration-500 z-50 pointer-events-none ${isVisible ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-10'}`}>
+        {showCalibration && active && loaded && (
+            <CalibrationWizard
+                frameTapRef={calibrationTapRef}
+                onComplete={finishCalibration}
+                onReset={() => finishCalibration(null)}
+                onCancel={() => setShowCalibration(false)}
+            />
+        )}
+
+        {/* Custom Gesture Trainer */}
+        {panel === 'trainer' && isVisible && (
+            <div className="absolute bottom-full right-0 mb-3 pointer-events-auto">
+                <GestureTrainer
+                    frameTapRef={trainerTapRef}
+                    canCapture={active && loaded && !replayName}
+                    gestures={customGestures.gestures}
+                    onAdd={customGestures.addGesture}
+                    onRemove={customGestures.removeGesture}
+                    onSetAction={customGestures.setGestureAction}
+                />
+            </div>
+        )}
+
+        {/* Camera Picker */}
+        {panel === 'camera' && isVisible && (
+            <div className="absolute bottom-full right-0 mb-3 pointer-events-auto">
+                <CameraSettings
+                    devices={camera.devices}
+                    activeDeviceId={camera.activeDeviceId}
+                    preferences={cameraPreferences}
+                    onChange={changeCameraPreferences}
+                />
+            </div>
+        )}
+
         {/* Gold Border Container */}
         <div className="relative w-full h-full rounded-lg overflow-hidden border-2 border-amber-500/80 shadow-[0_0_20px_rgba(255,215,0,0.3)] bg-black/90">
-            {!loaded && <div className="absolute inset-0 flex items-center justify-center text-xs text-amber-500/50 font-serif">INITIALIZING VISION...</div>}
+            {cameraProblem && !replayName ? (
+                <div className="absolute inset-0 z-10 flex flex-col items-center justify-center gap-1 px-3 text-center">
+                    <span className="text-xs font-serif text-red-400/80">{cameraProblem.title}</span>
+                    <span className="text-[9px] font-mono text-amber-100/40">{cameraProblem.hint}</span>
+                    <button onClick={camera.retry} className="mt-1 p-1 rounded-sm bg-black/60 text-amber-500 hover:bg-amber-500 hover:text-black transition-colors pointer-events-auto" title="重试">
+                        <RotateCcw size={10} />
+                    </button>
+                </div>
+            ) : !loaded && !replayName && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center gap-1 px-3 text-center">
+                    <span className={`text-xs font-serif ${visionStatus === 'error' ? 'text-red-400/80' : 'text-amber-500/50'}`}>
+                        {visionStatus === 'error' ? 'VISION UNAVAILABLE' : 'INITIALIZING VISION...'}
+                    </span>
+                    {visionMessage && <span className="text-[9px] font-mono text-amber-100/40">{visionMessage}</span>}
+                </div>
+            )}
             
             <video 
                 ref={videoRef} 
@@ -67,6 +252,9 @@ const VisionController: React.FC<VisionControllerProps> = ({ active }) => {
                 muted 
             />
             
+            {/* Tracked Skeleton + Debounce Readout */}
+            <HandSkeletonOverlay videoRef={videoRef} />
+
             {/* Overlay Grid for "Tech" feel */}
             <div className="absolute inset-0 bg-[linear-gradient(rgba(255,215,0,0.1)_1px,transparent_1px),linear-gradient(90deg,rgba(255,215,0,0.1)_1px,transparent_1px)] bg-[size:20px_20px] pointer-events-none"></div>
             
@@ -74,6 +262,60 @@ const VisionController: React.FC<VisionControllerProps> = ({ active }) => {
             <div className="absolute top-2 left-2 flex items-center gap-2">
                 <div className={`w-1.5 h-1.5 rounded-full ${loaded ? 'bg-amber-500 animate-pulse' : 'bg-red-900'}`}></div>
                 <span className="text-[9px] text-amber-500/80 tracking-widest font-mono">VISION_AI</span>
+                {loaded && visionDelegate && <span className="text-[8px] text-amber-100/50 font-mono">{visionDelegate}</span>}
+                {headTracking && (
+                    <span className={`text-[8px] font-mono ${headTrackingStatus === 'error' ? 'text-red-400/80 line-through' : isHeadDetected ? 'text-amber-400' : 'text-amber-100/30'}`} title={headTrackingStatus === 'error' ? "头部追踪不可用" : "头部视差"}>
+                        HEAD
+                    </span>
+                )}
+                {isRecording && <span className="text-[8px] text-red-400 font-mono animate-pulse">REC</span>}
+                {replayName && <span className="text-[8px] text-amber-100/70 font-mono">REPLAY</span>}
+            </div>
+
+            {/* Record / Replay Controls */}
+            <div className={`absolute bottom-2 right-2 z-20 flex items-center gap-1 ${isVisible ? 'pointer-events-auto' : ''}`}>
+                {replayName ? (
+                    <button onClick={stopReplay} className="p-1 rounded-sm bg-black/60 text-amber-500 hover:bg-amber-500 hover:text-black transition-colors" title="停止回放">
+                        <X size={10} />
+                    </button>
+                ) : (
+                    <>
+                        <button
+                            onClick={() => setShowCalibration(true)}
+                            disabled={!active || !loaded}
+                            className="p-1 rounded-sm bg-black/60 text-amber-500 hover:bg-amber-500 hover:text-black transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                            title="校准手势范围"
+                        >
+                            <Crosshair size={10} />
+                        </button>
+                        <button
+                            onClick={() => togglePanel('camera')}
+                            className={`p-1 rounded-sm transition-colors ${panel === 'camera' ? 'bg-amber-500 text-black' : 'bg-black/60 text-amber-500 hover:bg-amber-500 hover:text-black'}`}
+                            title="选择摄像头"
+                        >
+                            <Video size={10} />
+                        </button>
+                        <button
+                            onClick={() => togglePanel('trainer')}
+                            className={`p-1 rounded-sm transition-colors ${panel === 'trainer' ? 'bg-amber-500 text-black' : 'bg-black/60 text-amber-500 hover:bg-amber-500 hover:text-black'}`}
+                            title="训练自定义手势"
+                        >
+                            <Hand size={10} />
+                        </button>
+                        <button
+                            onClick={toggleRecording}
+                            disabled={!active || !loaded}
+                            className="p-1 rounded-sm bg-black/60 text-red-400 hover:bg-red-500 hover:text-black transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                            title={isRecording ? "停止并保存录制" : "录制手势数据"}
+                        >
+                            {isRecording ? <Square size={10} /> : <Circle size={10} />}
+                        </button>
+                        <label className="p-1 rounded-sm bg-black/60 text-amber-500 hover:bg-amber-500 hover:text-black transition-colors cursor-pointer" title="回放手势录制">
+                            <Play size={10} />
+                            <input type="file" accept="application/json,.json" onChange={handleReplayUpload} className="hidden" />
+                        </label>
+                    </>
+                )}
             </div>
         </div>
     </div>
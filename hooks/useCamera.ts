@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CameraPreferences, CameraStatus } from '../types';
+import { classifyCameraError, listVideoInputs, openCamera, stopStream } from '../vision/cameraDevices';
+
+// Owns the webcam stream of a <video>: device choice, permission errors and hot-unplug
+export const useCamera = (
+  videoRef: React.RefObject<HTMLVideoElement>,
+  active: boolean,
+  { deviceId, width, height }: CameraPreferences
+) => {
+  const [status, setStatus] = useState<CameraStatus>('idle');
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [activeDeviceId, setActiveDeviceId] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const statusRef = useRef(status);
+  statusRef.current = status;
+
+  const refreshDevices = useCallback(() => {
+    listVideoInputs()
+      .then(setDevices)
+      .catch((e) => console.error("Failed to list cameras:", e));
+  }, []);
+
+  const retry = useCallback(() => setAttempt(a => a + 1), []);
+
+  // Plugging a camera in (or back in) restarts a stream that had none
+  useEffect(() => {
+    if (!navigator.mediaDevices) return;
+    const handleDeviceChange = () => {
+      refreshDevices();
+      if (statusRef.current === 'missing') retry();
+    };
+    refreshDevices();
+    navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+  }, [refreshDevices, retry]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!active || !video) {
+      setStatus('idle');
+      return;
+    }
+
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    setStatus('starting');
+
+    openCamera({ deviceId, width, height })
+      .then((opened) => {
+        if (cancelled) {
+          stopStream(opened);
+          return;
+        }
+        stream = opened;
+        const [track] = opened.getVideoTracks();
+        setActiveDeviceId(track?.getSettings().deviceId ?? null);
+
+        // Unplugged mid-session: the track ends without an error anywhere else
+        if (track) {
+          track.onended = () => {
+            if (cancelled) return;
+            video.srcObject = null;
+            setStatus('missing');
+            refreshDevices();
+          };
+        }
+
+        video.srcObject = opened;
+        video.play().catch((e) => {
+          if (e.name !== 'AbortError') console.error("Camera playback failed:", e);
+        });
+        setStatus('live');
+        // Device labels only become readable after permission is granted
+        refreshDevices();
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error("Camera unavailable:", err);
+        setStatus(classifyCameraError(err));
+      });
+
+    return () => {
+      cancelled = true;
+      stopStream(stream);
+      if (video.srcObject === stream) video.srcObject = null;
+    };
+  }, [active, deviceId, width, height, attempt, videoRef, refreshDevices]);
+
+  return { status, devices, activeDeviceId, retry };
+};
@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from 'react';
+import { CustomGesture, GestureAction } from '../types';
+import { GestureRegistry, gestureRegistry } from '../vision/gestureRegistry';
+import {
+  createCustomGestureRule, CUSTOM_GESTURE_RULE_ID, loadCustomGestures, saveCustomGestures
+} from '../vision/customGestures';
+
+// Owns the trained gesture list: persists it locally and keeps the registry rule in sync.
+export const useCustomGestures = (registry: GestureRegistry = gestureRegistry) => {
+  const [gestures, setGestures] = useState<CustomGesture[]>(loadCustomGestures);
+
+  useEffect(() => {
+    saveCustomGestures(gestures);
+    if (gestures.length > 0) {
+      registry.add(createCustomGestureRule(gestures));
+    } else {
+      registry.remove(CUSTOM_GESTURE_RULE_ID);
+    }
+  }, [gestures, registry]);
+
+  const addGesture = useCallback((name: string, action: GestureAction, samples: number[][]) => {
+    const gesture: CustomGesture = { id: `g-${Date.now().toString(36)}`, name, action, samples };
+    setGestures(prev => [...prev, gesture]);
+  }, []);
+
+  const removeGesture = useCallback((id: string) => {
+    setGestures(prev => prev.filter(g => g.id !== id));
+  }, []);
+
+  const setGestureAction = useCallback((id: string, action: GestureAction) => {
+    setGestures(prev => prev.map(g => g.id === id ? { ...g, action } : g));
+  }, []);
+
+  return { gestures, addGesture, removeGesture, setGestureAction };
+};
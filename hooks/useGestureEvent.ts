@@ -0,0 +1,11 @@
+import { useEffect, useRef } from 'react';
+import { GestureEventListener, GestureEventType, gestureEvents } from '../vision/gestureEvents';
+
+// Subscribes a component to one gesture event type for its lifetime. The latest listener
+// is always called, so it can close over fresh props without resubscribing.
+export const useGestureEvent = (type: GestureEventType, listener: GestureEventListener) => {
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => gestureEvents.on(type, (event) => listenerRef.current(event)), [type]);
+};
@@ -1,171 +1,168 @@
-
-import { useEffect, useRef, useState, useCallback } from 'react';
-import { FilesetResolver, GestureRecognizer } from '@mediapipe/tasks-vision';
-import * as THREE from 'three';
-import { GestureState } from '../types';
-
-export interface HandTrackingResult {
-  isDetected: boolean;
-  worldPosition: THREE.Vector3;
-  gesture: GestureState;
-  gestureFactor: number; // 0 (Fist) to 1 (Open)
+import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { HandCalibration, HandFrame, HandOwnership } from '../types';
+import { GestureRegistry, gestureRegistry } from '../vision/gestureRegistry';
+import { createHandFrameProcessor, DEFAULT_MIN_CONFIDENCE, HandTrackingResult } from '../vision/handFrameProcessor';
+import { DEFAULT_CALIBRATION, getViewportAspect } from '../vision/handCalibration';
+import { DEFAULT_ONE_EURO, OneEuroParams } from '../vision/oneEuroFilter';
+import { MAX_TRACKED_HANDS } from '../vision/handIdentity';
+import type { RecognitionRequest, RecognitionResponse } from '../vision/recognitionWorker';
+import RecognitionWorker from '../vision/recognitionWorker?worker';
+import { useVisionStore } from '../store';
+
+export type { HandTrackingResult } from '../vision/handFrameProcessor';
+
+// Recognition rate, independent of render FPS (the model rarely keeps up with 60+)
+export const DEFAULT_DETECTION_RATE = 30;
+
+export interface HandTrackingOptions {
+  registry?: GestureRegistry;
+  calibration?: HandCalibration; // Palm reach mapped onto the full screen
+  smoothing?: OneEuroParams; // Landmark filter tuning
+  ownership?: HandOwnership; // Which hand drives the gestures when several are in view
+  maxHands?: number; // Hands the recognizer looks for (one wand each)
+  minConfidence?: number; // Gesture matches below this don't reach the debounce
+  detectionRate?: number; // Hz, frames sent to the recognition worker
+  paused?: boolean; // Live frames stay out of the processor, e.g. while a recording replays through it
+  onFrame?: (frame: HandFrame) => void; // Raw frame tap, e.g. for the landmark recorder
+  onResult?: (result: HandTrackingResult) => void; // Live camera results, as they arrive from the worker
 }
 
 export const useHandTracking = (
-  videoRef: React.RefObject<HTMLVideoElement>, 
-  active: boolean
+  videoRef: React.RefObject<HTMLVideoElement>,
+  active: boolean,
+  { registry = gestureRegistry, calibration = DEFAULT_CALIBRATION, smoothing = DEFAULT_ONE_EURO, ownership = 'first-come', maxHands = MAX_TRACKED_HANDS, minConfidence = DEFAULT_MIN_CONFIDENCE, detectionRate = DEFAULT_DETECTION_RATE, paused = false, onFrame, onResult }: HandTrackingOptions = {}
 ) => {
-  const recognizerRef = useRef<GestureRecognizer | null>(null);
+  const workerRef = useRef<Worker | null>(null);
   const [loaded, setLoaded] = useState(false);
 
-  // Constants for coordinate mapping (Assuming Camera Z=24, FOV=45)
-  // Visible Height at Z=0 is approx 20 units.
-  const VISIBLE_HEIGHT = 20;
-  const VISIBLE_WIDTH = VISIBLE_HEIGHT * (window.innerWidth / window.innerHeight); // Approximate
-
-  // Smoothing & Debouncing Refs
-  const smoothPos = useRef(new THREE.Vector3(0, 0, 0));
-  const smoothFactor = useRef(0);
-  
-  // Debounce State
-  const lastRawStateRef = useRef<GestureState>(GestureState.IDLE);
-  const frameStabilityCounter = useRef<number>(0);
-  const confirmedStateRef = useRef<GestureState>(GestureState.IDLE);
-
-  // Initialize MediaPipe
+  // Smoothing & Debouncing live in the processor so replayed frames share them
+  const processor = useMemo(
+    () => createHandFrameProcessor({ registry, calibration, smoothing, ownership, maxHands, minConfidence, aspect: getViewportAspect() }),
+    [registry, maxHands]
+  );
+
+  useEffect(() => {
+    processor.setCalibration(calibration);
+  }, [processor, calibration]);
+
+  useEffect(() => {
+    processor.setSmoothing(smoothing);
+  }, [processor, smoothing]);
+
+  useEffect(() => {
+    processor.setOwnership(ownership);
+  }, [processor, ownership]);
+
+  useEffect(() => {
+    processor.setMinConfidence(minConfidence);
+  }, [processor, minConfidence]);
+
+  // Keep the world mapping in step with the window shape
   useEffect(() => {
-    const init = async () => {
-      try {
-        const vision = await FilesetResolver.forVisionTasks(
-          "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.3/wasm"
-        );
-        const recognizer = await GestureRecognizer.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath: "https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/gesture_recognizer.task",
-            delegate: "GPU"
-          },
-          runningMode: "VIDEO",
-          numHands: 1
-        });
-        recognizerRef.current = recognizer;
-        setLoaded(true);
-      } catch (e) {
-        console.error("Failed to load MediaPipe:", e);
+    const handleResize = () => processor.setAspect(getViewportAspect());
+    handleResize();
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, [processor]);
+
+  const onFrameRef = useRef(onFrame);
+  onFrameRef.current = onFrame;
+  const onResultRef = useRef(onResult);
+  onResultRef.current = onResult;
+  const pausedRef = useRef(paused);
+  pausedRef.current = paused;
+
+  // One frame in flight at a time: a slow model drops frames instead of queueing them
+  const inFlightRef = useRef(false);
+
+  // Start the recognition worker (local assets, GPU first then CPU)
+  useEffect(() => {
+    const { updateVisionData } = useVisionStore.getState();
+    updateVisionData({ visionStatus: 'loading', visionMessage: null });
+
+    const worker = new RecognitionWorker();
+    workerRef.current = worker;
+
+    worker.onmessage = (event: MessageEvent<RecognitionResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'ready':
+          updateVisionData({ visionStatus: 'ready', visionDelegate: message.delegate, visionMessage: null });
+          setLoaded(true);
+          break;
+        case 'fallback':
+          updateVisionData({ visionMessage: 'GPU unavailable, retrying on CPU' });
+          break;
+        case 'error':
+          updateVisionData({ visionStatus: 'error', visionMessage: message.message });
+          break;
+        case 'frame':
+          inFlightRef.current = false;
+          // A frame captured just before pausing must not reach the filters a replay now owns
+          if (pausedRef.current) break;
+          onFrameRef.current?.(message.frame);
+          onResultRef.current?.(processor.process(message.frame));
+          break;
       }
     };
-    init();
-  }, []);
-
-  // --- Geometric Helpers ---
-  const getDistance = (p1: any, p2: any) => {
-    return Math.sqrt(Math.pow(p1.x - p2.x, 2) + Math.pow(p1.y - p2.y, 2));
-  };
-
-  const isOKGesture = (landmarks: any[]) => {
-    const wrist = landmarks[0];
-    const thumbTip = landmarks[4];
-    const indexTip = landmarks[8];
-    const middleTip = landmarks[12];
-    const indexMCP = landmarks[5]; 
-
-    // Scale reference: Wrist to Index Knuckle
-    const handScale = getDistance(wrist, indexMCP);
-
-    // 1. PINCH CHECK: Thumb tip close to Index tip
-    const pinchDist = getDistance(thumbTip, indexTip);
-    const isPinching = pinchDist < (handScale * 0.5); // Strict threshold
-
-    // 2. FIST GUARD: Middle Finger Tip must be AWAY from wrist
-    // If middle finger is close to wrist, it's likely a fist, not an OK sign.
-    const middleToWrist = getDistance(middleTip, wrist);
-    const isNotFist = middleToWrist > (handScale * 0.9);
-
-    return isPinching && isNotFist;
-  };
-
-  const detect = useCallback((): HandTrackingResult | null => {
-    if (!recognizerRef.current || !videoRef.current || videoRef.current.readyState !== 4) return null;
-
-    const results = recognizerRef.current.recognizeForVideo(videoRef.current, Date.now());
-
-    if (results.landmarks.length > 0) {
-      const landmarks = results.landmarks[0];
-      const gestureName = results.gestures[0]?.[0]?.categoryName;
-
-      // 1. Position Mapping
-      const palm = landmarks[9]; 
-      const targetX = (palm.x - 0.5) * VISIBLE_WIDTH * 1.5; 
-      const targetY = -(palm.y - 0.5) * VISIBLE_HEIGHT * 1.2;
-      smoothPos.current.lerp(new THREE.Vector3(targetX, targetY, 0), 0.2);
-
-      // 2. Raw Gesture Recognition (Before Debounce)
-      let rawState = GestureState.IDLE;
-
-      // Check Geometric OK first (High Priority)
-      const isOK = isOKGesture(landmarks);
-
-      if (isOK || gestureName === 'Victory' || gestureName === 'Thumb_Up' || gestureName === 'Pointing_Up') {
-        rawState = GestureState.VICTORY;
-      } else if (gestureName === 'Open_Palm') {
-        rawState = GestureState.OPEN_PALM;
-      } else if (gestureName === 'Closed_Fist') {
-        rawState = GestureState.CLOSED_FIST;
-      } else {
-        rawState = GestureState.IDLE;
-      }
+    worker.onerror = (event) => {
+      console.error("Recognition worker failed:", event.message);
+      updateVisionData({ visionStatus: 'error', visionMessage: 'Vision worker failed to start' });
+    };
 
-      // 3. Debouncing Logic (Stability Check)
-      if (rawState === lastRawStateRef.current) {
-        frameStabilityCounter.current++;
-      } else {
-        lastRawStateRef.current = rawState;
-        frameStabilityCounter.current = 0;
-      }
+    const init: RecognitionRequest = { type: 'init', numHands: maxHands };
+    worker.postMessage(init);
 
-      // Require 4 frames of consistency to change state
-      if (frameStabilityCounter.current > 4) {
-        confirmedStateRef.current = rawState;
-      }
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      inFlightRef.current = false;
+      setLoaded(false);
+    };
+  }, [processor]);
 
-      const finalState = confirmedStateRef.current;
-
-      // 4. Calculate Factor based on CONFIRMED state
-      let targetFactor = smoothFactor.current;
-
-      if (finalState === GestureState.CLOSED_FIST) {
-        targetFactor = 0.0; // Shrink
-      } else if (finalState === GestureState.OPEN_PALM) {
-        targetFactor = 1.0; // Explode
-      } else if (finalState === GestureState.VICTORY) {
-        // For Victory/OK, we want a neutral or slightly expanded state, not full explode
-        targetFactor = THREE.MathUtils.lerp(targetFactor, 0.5, 0.1);
-      } else {
-        // IDLE drift
-        targetFactor = THREE.MathUtils.lerp(targetFactor, 0.2, 0.05);
+  // Capture loop: grab the current video frame at the detection rate and hand it off
+  useEffect(() => {
+    if (!active || !loaded || paused) return;
+    const interval = 1000 / detectionRate;
+    let lastTimestamp = 0;
+    let timer = 0;
+    let stopped = false;
+
+    const tick = async () => {
+      const startedAt = performance.now();
+      const video = videoRef.current;
+      if (!inFlightRef.current && workerRef.current && video && video.readyState === 4) {
+        inFlightRef.current = true;
+        try {
+          const bitmap = await createImageBitmap(video);
+          if (stopped || !workerRef.current) {
+            bitmap.close();
+            inFlightRef.current = false;
+            return;
+          }
+          // MediaPipe needs strictly increasing timestamps; performance.now() can't jump back like the wall clock
+          const timestamp = Math.max(performance.now(), lastTimestamp + 1);
+          lastTimestamp = timestamp;
+          const request: RecognitionRequest = { type: 'frame', bitmap, timestamp };
+          workerRef.current.postMessage(request, [bitmap]);
+        } catch (e) {
+          // Video between frames (e.g. camera switching); try again next tick
+          inFlightRef.current = false;
+        }
       }
+      if (!stopped) timer = window.setTimeout(tick, Math.max(0, interval - (performance.now() - startedAt)));
+    };
+    tick();
+
+    return () => {
+      stopped = true;
+      window.clearTimeout(timer);
+    };
+  }, [active, loaded, paused, detectionRate, videoRef]);
+
+  // Feed a frame from another source (e.g. a replayed recording) through the same pipeline
+  const processFrame = useCallback((frame: HandFrame) => processor.process(frame), [processor]);
 
-      smoothFactor.current = THREE.MathUtils.lerp(smoothFactor.current, targetFactor, 0.1);
-
-      return {
-        isDetected: true,
-        worldPosition: smoothPos.current.clone(),
-        gesture: finalState,
-        gestureFactor: smoothFactor.current
-      };
-    } else {
-        // Decay if lost
-        smoothFactor.current = THREE.MathUtils.lerp(smoothFactor.current, 0, 0.1);
-        // Reset debounce
-        frameStabilityCounter.current = 0;
-        
-        return {
-            isDetected: false,
-            worldPosition: smoothPos.current.clone(),
-            gesture: GestureState.IDLE,
-            gestureFactor: smoothFactor.current
-        };
-    }
-  }, [videoRef]);
-
-  return { loaded, detect };
+  return { loaded, processFrame, resetTracking: processor.reset };
 };
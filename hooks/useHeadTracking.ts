@@ -0,0 +1,78 @@
+import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { FaceLandmarker } from '@mediapipe/tasks-vision';
+import { createFaceLandmarker, describeVisionError } from '../vision/visionAssets';
+import { createHeadTracker, HeadTrackingResult } from '../vision/headTracking';
+import { useVisionStore } from '../store';
+import { DEFAULT_DETECTION_RATE } from './useHandTracking';
+
+export type { HeadTrackingResult } from '../vision/headTracking';
+
+// Runs on the same <video> as hand tracking; the face model is only fetched once enabled.
+// Detection is synchronous on the main thread, so it is capped at the hand detection rate
+export const useHeadTracking = (
+  videoRef: React.RefObject<HTMLVideoElement>,
+  enabled: boolean,
+  detectionRate = DEFAULT_DETECTION_RATE
+) => {
+  const landmarkerRef = useRef<FaceLandmarker | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const tracker = useMemo(() => createHeadTracker(), []);
+  const lastTimestampRef = useRef(0);
+
+  useEffect(() => {
+    if (!enabled || landmarkerRef.current) return;
+    let cancelled = false;
+    const { updateVisionData } = useVisionStore.getState();
+
+    const init = async () => {
+      updateVisionData({ headTrackingStatus: 'loading' });
+      try {
+        const { task } = await createFaceLandmarker();
+        if (cancelled) {
+          task.close();
+          updateVisionData({ headTrackingStatus: 'idle' });
+          return;
+        }
+        landmarkerRef.current = task;
+        updateVisionData({ headTrackingStatus: 'ready' });
+        setLoaded(true);
+      } catch (e) {
+        console.error("Failed to load face landmarker:", describeVisionError(e), e);
+        if (!cancelled) updateVisionData({ headTrackingStatus: 'error' });
+      }
+    };
+    init();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  // Release the model with the component, not on every toggle
+  useEffect(() => () => {
+    landmarkerRef.current?.close();
+    landmarkerRef.current = null;
+  }, []);
+
+  // Viewer left the frame / mode switched off: let the camera settle back
+  useEffect(() => {
+    if (!enabled) {
+      tracker.reset();
+      useVisionStore.getState().updateVisionData({ isHeadDetected: false });
+    }
+  }, [enabled, tracker]);
+
+  const detect = useCallback((): HeadTrackingResult | null => {
+    if (!enabled || !landmarkerRef.current || !videoRef.current || videoRef.current.readyState !== 4) return null;
+    // Called every render frame; null means "nothing new yet"
+    if (performance.now() - lastTimestampRef.current < 1000 / detectionRate) return null;
+
+    // Monotonic clock, strictly increasing as MediaPipe requires
+    const timestamp = Math.max(performance.now(), lastTimestampRef.current + 1);
+    lastTimestampRef.current = timestamp;
+    const results = landmarkerRef.current.detectForVideo(videoRef.current, timestamp);
+    return tracker.process(results.faceLandmarks[0], timestamp);
+  }, [enabled, detectionRate, videoRef, tracker]);
+
+  return { loaded, detect, resetTracking: tracker.reset };
+};
@@ -0,0 +1,19 @@
+import { useEffect } from 'react';
+import { startHandInputSource } from '../input/handSource';
+import { startPointerInputSource } from '../input/pointerSource';
+import { startKeyboardInputSource } from '../input/keyboardSource';
+import { startGamepadInputSource } from '../input/gamepadSource';
+
+// Starts every input device; each writes intents to useInputStore until unmount.
+// A new device is one more start function here, not an edit in every scene component.
+export const useInputSources = (canvas: HTMLElement) => {
+  useEffect(() => {
+    const stops = [
+      startHandInputSource(),
+      startPointerInputSource(canvas),
+      startKeyboardInputSource(),
+      startGamepadInputSource(),
+    ];
+    return () => stops.forEach(stop => stop());
+  }, [canvas]);
+};
@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { clearStoredPhotos, loadStoredPhotos, storePhotos } from '../persistence';
+
+// Uploaded photos as object URLs, backed by IndexedDB so they come back after a reload.
+// Every URL handed out is revoked on clear and on unmount.
+export const usePhotoLibrary = () => {
+  const [photos, setPhotos] = useState<string[]>([]);
+  const urlsRef = useRef<string[]>([]);
+
+  const toUrls = useCallback((blobs: Blob[]) => {
+    const urls = blobs.map(blob => URL.createObjectURL(blob));
+    urlsRef.current.push(...urls);
+    return urls;
+  }, []);
+
+  const revokeAll = useCallback(() => {
+    urlsRef.current.forEach(url => URL.revokeObjectURL(url));
+    urlsRef.current = [];
+  }, []);
+
+  // Restored photos go first, ahead of anything uploaded while the database was opening
+  useEffect(() => {
+    let cancelled = false;
+    loadStoredPhotos()
+      .then(stored => {
+        if (cancelled) return;
+        const urls = toUrls(stored.map(photo => photo.blob));
+        setPhotos(prev => [...urls, ...prev]);
+      })
+      .catch(e => console.error("Failed to restore photos:", e));
+    return () => {
+      cancelled = true;
+      revokeAll();
+    };
+  }, [toUrls, revokeAll]);
+
+  // Shown right away; a failed save only costs the photo on the next reload
+  const addPhotos = useCallback((files: File[]) => {
+    const urls = toUrls(files);
+    setPhotos(prev => [...prev, ...urls]);
+    storePhotos(files).catch(e => console.error("Failed to save photos:", e));
+  }, [toUrls]);
+
+  const clearPhotos = useCallback(() => {
+    revokeAll();
+    setPhotos([]);
+    clearStoredPhotos().catch(e => console.error("Failed to clear saved photos:", e));
+  }, [revokeAll]);
+
+  return { photos, addPhotos, clearPhotos };
+};
@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Theme } from '../types';
+import { BUILT_IN_THEMES, createThemeId, loadCustomThemes, saveCustomThemes } from '../themes';
+
+// Owns the theme registry: built-ins first, then the user's themes, which persist locally.
+export const useThemes = () => {
+  const [customThemes, setCustomThemes] = useState<Theme[]>(loadCustomThemes);
+
+  useEffect(() => {
+    saveCustomThemes(customThemes);
+  }, [customThemes]);
+
+  const themes = useMemo(() => [...BUILT_IN_THEMES, ...customThemes], [customThemes]);
+
+  // New copies and imports always get a fresh id, so they never shadow a built-in
+  const addTheme = useCallback((theme: Theme) => {
+    const added: Theme = { ...theme, id: createThemeId() };
+    setCustomThemes(prev => [...prev, added]);
+    return added;
+  }, []);
+
+  const updateTheme = useCallback((theme: Theme) => {
+    setCustomThemes(prev => prev.map(t => t.id === theme.id ? theme : t));
+  }, []);
+
+  const removeTheme = useCallback((id: string) => {
+    setCustomThemes(prev => prev.filter(t => t.id !== id));
+  }, []);
+
+  return { themes, addTheme, updateTheme, removeTheme };
+};
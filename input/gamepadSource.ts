@@ -0,0 +1,101 @@
+import * as THREE from 'three';
+import { useInputStore } from '../store';
+import { InputIntentType } from '../types';
+
+const STICK_DEADZONE = 0.15;
+const TRIGGER_DEADZONE = 0.05;
+const CURSOR_SPEED = 1.2; // NDC per second at full tilt
+const ROTATE_SPEED = 2.0; // Radians per second at full tilt
+const CURSOR_IDLE_MS = 5000; // Hand the wand back to the mouse after this long without stick input
+
+// Standard mapping button indices (https://w3c.github.io/gamepad/#remapping)
+const BUTTON_A = 0;
+const BUTTON_LB = 4;
+const BUTTON_RB = 5;
+const LEFT_TRIGGER = 6;
+const RIGHT_TRIGGER = 7;
+
+const BUTTON_INTENTS: Record<number, InputIntentType> = {
+  1: 'dismiss', // B
+  3: 'toggleGallery', // Y
+  2: 'spin', // X
+  [BUTTON_LB]: 'previous',
+  [BUTTON_RB]: 'next',
+  14: 'previous', // D-pad left
+  15: 'next', // D-pad right
+  9: 'morph', // Start
+};
+
+const applyDeadzone = (value: number, deadzone: number) =>
+  Math.abs(value) < deadzone ? 0 : Math.sign(value) * (Math.abs(value) - deadzone) / (1 - deadzone);
+
+// Standard-mapping controllers, polled once per animation frame. Left stick moves the wand,
+// right stick rotates, triggers explode, A summons (hold to keep the photo up), B dismisses,
+// Y toggles the gallery, X spins it, bumpers / D-pad step photos, Start morphs.
+export const startGamepadInputSource = () => {
+  const { setCursors, setExplodeTarget, setSummonHeld, emitIntent } = useInputStore.getState();
+  const cursor = new THREE.Vector2(0, 0);
+  let pressed: boolean[] = [];
+  let lastStickTime = -Infinity;
+  let lastTime = performance.now();
+  let frameId = 0;
+
+  const connectedPad = () => Array.from(navigator.getGamepads?.() ?? []).find(pad => pad?.connected && pad.mapping === 'standard') ?? null;
+
+  const clear = () => {
+    setCursors('gamepad', []);
+    setExplodeTarget('gamepad', null);
+    setSummonHeld('gamepad', false);
+    pressed = [];
+  };
+
+  const poll = () => {
+    frameId = requestAnimationFrame(poll);
+    const now = performance.now();
+    const delta = Math.min(0.1, (now - lastTime) / 1000);
+    lastTime = now;
+
+    const pad = connectedPad();
+    if (!pad) {
+      if (pressed.length > 0) clear();
+      return;
+    }
+
+    // Left stick: wand
+    const moveX = applyDeadzone(pad.axes[0] ?? 0, STICK_DEADZONE);
+    const moveY = applyDeadzone(pad.axes[1] ?? 0, STICK_DEADZONE);
+    if (moveX !== 0 || moveY !== 0) {
+      cursor.x = THREE.MathUtils.clamp(cursor.x + moveX * CURSOR_SPEED * delta, -1, 1);
+      cursor.y = THREE.MathUtils.clamp(cursor.y - moveY * CURSOR_SPEED * delta, -1, 1);
+      lastStickTime = now;
+      setCursors('gamepad', [{ source: 'gamepad', slot: 0, position: cursor.clone(), depth: 0 }]);
+    } else if (now - lastStickTime > CURSOR_IDLE_MS && useInputStore.getState().cursors.gamepad?.length) {
+      setCursors('gamepad', []);
+    }
+
+    // Right stick: twist the tree / turn the gallery ring
+    const turn = applyDeadzone(pad.axes[2] ?? 0, STICK_DEADZONE);
+    if (turn !== 0) emitIntent('rotate', 'gamepad', turn * ROTATE_SPEED * delta);
+
+    // Triggers: analog explode, the further one wins
+    const trigger = Math.max(pad.buttons[LEFT_TRIGGER]?.value ?? 0, pad.buttons[RIGHT_TRIGGER]?.value ?? 0);
+    if (trigger > TRIGGER_DEADZONE) setExplodeTarget('gamepad', trigger);
+    else if (useInputStore.getState().explodeTargets.gamepad !== undefined) setExplodeTarget('gamepad', null);
+
+    // Face buttons fire on the press edge only
+    const isDown = pad.buttons.map(button => button.pressed);
+    if (isDown[BUTTON_A] && !pressed[BUTTON_A]) emitIntent('summon', 'gamepad');
+    setSummonHeld('gamepad', !!isDown[BUTTON_A]);
+    for (const [index, type] of Object.entries(BUTTON_INTENTS)) {
+      const i = Number(index);
+      if (isDown[i] && !pressed[i]) emitIntent(type, 'gamepad');
+    }
+    pressed = isDown;
+  };
+  poll();
+
+  return () => {
+    cancelAnimationFrame(frameId);
+    clear();
+  };
+};
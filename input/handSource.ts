@@ -0,0 +1,70 @@
+import { GestureState, MotionGesture } from '../types';
+import { useInputStore, useVisionStore } from '../store';
+import { SUMMON_GESTURES } from '../vision/gestureRegistry';
+import { gestureEvents } from '../vision/gestureEvents';
+import { MOTION_INTENTS } from './motionIntents';
+
+const DISMISS_GESTURES = new Set([GestureState.CLOSED_FIST, GestureState.OPEN_PALM]);
+const SWIPE_GRACE_MS = 1000; // A swipe's hand shape settling isn't a dismiss
+const GALLERY_TOGGLE_COOLDOWN_MS = 1000;
+
+// Confirmed gestures and motions -> intents. Poses act on gesturestart, so holding one
+// doesn't repeat the action.
+export const startHandInputSource = () => {
+  let lastMotionHandled = useVisionStore.getState().lastMotion?.timestamp ?? 0;
+  let lastSwipe = 0;
+  let lastGalleryToggle = 0;
+
+  const unsubscribe = useVisionStore.subscribe((state) => {
+    const { setCursors, setExplodeTarget, emitIntent } = useInputStore.getState();
+
+    // Continuous: one cursor per hand, the owner's gesture factor
+    setCursors('hand', state.isHandDetected
+      ? state.trackedHands.map(hand => ({
+          source: 'hand' as const,
+          slot: hand.slot,
+          position: hand.screenPosition,
+          depth: hand.isOwner ? state.handDepth : 0
+        }))
+      : []);
+    setExplodeTarget('hand', state.isHandDetected ? state.gestureFactor : null);
+
+    // Swipes / stir
+    const { lastMotion } = state;
+    if (lastMotion && lastMotion.timestamp > lastMotionHandled) {
+      lastMotionHandled = lastMotion.timestamp;
+      if (lastMotion.type === MotionGesture.SWIPE_LEFT || lastMotion.type === MotionGesture.SWIPE_RIGHT) lastSwipe = performance.now();
+      emitIntent(MOTION_INTENTS[lastMotion.type], 'hand');
+    }
+  });
+
+  // Pose edges; switching between two dismiss poses (fist <-> palm) doesn't dismiss twice
+  const stopStart = gestureEvents.on('gesturestart', ({ gesture, previous = GestureState.IDLE, timestamp }) => {
+    const { setSummonHeld, emitIntent } = useInputStore.getState();
+    if (SUMMON_GESTURES.has(gesture)) {
+      setSummonHeld('hand', true);
+      if (!SUMMON_GESTURES.has(previous)) emitIntent('summon', 'hand');
+    }
+    if (DISMISS_GESTURES.has(gesture) && !DISMISS_GESTURES.has(previous) && timestamp - lastSwipe > SWIPE_GRACE_MS) {
+      emitIntent('dismiss', 'hand');
+    }
+    if (gesture === GestureState.GALLERY_TOGGLE && timestamp - lastGalleryToggle > GALLERY_TOGGLE_COOLDOWN_MS) {
+      lastGalleryToggle = timestamp;
+      emitIntent('toggleGallery', 'hand');
+    }
+    if (gesture === GestureState.MORPH) emitIntent('morph', 'hand');
+  });
+  const stopEnd = gestureEvents.on('gestureend', ({ gesture }) => {
+    if (SUMMON_GESTURES.has(gesture)) useInputStore.getState().setSummonHeld('hand', false);
+  });
+
+  return () => {
+    unsubscribe();
+    stopStart();
+    stopEnd();
+    const { setCursors, setExplodeTarget, setSummonHeld } = useInputStore.getState();
+    setCursors('hand', []);
+    setExplodeTarget('hand', null);
+    setSummonHeld('hand', false);
+  };
+};
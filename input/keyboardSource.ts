@@ -0,0 +1,55 @@
+import { useInputStore } from '../store';
+import { InputIntentType } from '../types';
+
+const KEY_ROTATION = 0.1; // Radians per key press (auto-repeat keeps it turning)
+
+const KEY_INTENTS: Record<string, InputIntentType> = {
+  ArrowRight: 'next',
+  ArrowLeft: 'previous',
+  Escape: 'dismiss',
+  Backspace: 'dismiss',
+  KeyG: 'toggleGallery',
+  KeyM: 'morph',
+};
+
+// Text fields and focused buttons keep their own keys
+const ownsKeys = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA', 'BUTTON'].includes(target.tagName));
+
+// Presenter keys: Space summons (hold to keep the photo up), W / S explode / assemble,
+// A / D rotate, arrows step photos, Esc dismisses, G toggles the gallery, M morphs
+export const startKeyboardInputSource = () => {
+  const { emitIntent, setExplodeTarget, setSummonHeld } = useInputStore.getState();
+
+  const handleDown = (e: KeyboardEvent) => {
+    if (ownsKeys(e.target) || e.metaKey || e.ctrlKey || e.altKey) return;
+
+    if (e.code === 'Space') {
+      e.preventDefault();
+      if (!e.repeat) emitIntent('summon', 'keyboard');
+      setSummonHeld('keyboard', true);
+    } else if (e.code === 'KeyW') {
+      setExplodeTarget('keyboard', 1);
+    } else if (e.code === 'KeyS') {
+      setExplodeTarget('keyboard', null);
+    } else if (e.code === 'KeyA' || e.code === 'KeyD') {
+      emitIntent('rotate', 'keyboard', e.code === 'KeyA' ? -KEY_ROTATION : KEY_ROTATION);
+    } else if (KEY_INTENTS[e.code] && !e.repeat) {
+      emitIntent(KEY_INTENTS[e.code], 'keyboard');
+    }
+  };
+
+  const handleUp = (e: KeyboardEvent) => {
+    if (e.code === 'Space') setSummonHeld('keyboard', false);
+  };
+
+  window.addEventListener('keydown', handleDown);
+  window.addEventListener('keyup', handleUp);
+
+  return () => {
+    window.removeEventListener('keydown', handleDown);
+    window.removeEventListener('keyup', handleUp);
+    setExplodeTarget('keyboard', null);
+    setSummonHeld('keyboard', false);
+  };
+};
@@ -0,0 +1,9 @@
+import { InputIntentType, MotionGesture } from '../types';
+
+// Same meaning whether the trajectory came from a palm or a finger on glass
+export const MOTION_INTENTS: Record<MotionGesture, InputIntentType> = {
+  [MotionGesture.SWIPE_RIGHT]: 'next',
+  [MotionGesture.SWIPE_LEFT]: 'previous',
+  [MotionGesture.SWIPE_UP]: 'dismiss',
+  [MotionGesture.STIR]: 'spin',
+};
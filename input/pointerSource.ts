@@ -0,0 +1,88 @@
+import * as THREE from 'three';
+import { InputSource } from '../types';
+import { useInputStore } from '../store';
+import { createMotionDetector } from '../vision/motionGestures';
+import { MOTION_INTENTS } from './motionIntents';
+
+const DRAG_ROTATION = 0.005; // Radians per pixel of gallery drag
+const DOUBLE_TAP_MS = 300;
+const DOUBLE_TAP_DISTANCE = 30; // px
+
+// Mouse and touch via pointer events on the canvas. Both move the cursor and drag the
+// gallery ring; touch adds double-tap to summon and flicks for next / previous / dismiss.
+export const startPointerInputSource = (element: HTMLElement) => {
+  const { setCursors, emitIntent } = useInputStore.getState();
+  const touchMotion = createMotionDetector();
+  const drag = { pointerId: -1, lastX: 0 };
+  const lastTap = { time: 0, x: 0, y: 0 };
+
+  const sourceOf = (e: PointerEvent): InputSource => e.pointerType === 'mouse' ? 'mouse' : 'touch';
+
+  const toNdc = (e: PointerEvent) => {
+    const rect = element.getBoundingClientRect();
+    return new THREE.Vector2(
+      ((e.clientX - rect.left) / rect.width) * 2 - 1,
+      -((e.clientY - rect.top) / rect.height) * 2 + 1
+    );
+  };
+
+  const moveCursor = (e: PointerEvent) => {
+    setCursors(sourceOf(e), [{ source: sourceOf(e), slot: 0, position: toNdc(e), depth: 0 }]);
+  };
+
+  const handleDown = (e: PointerEvent) => {
+    drag.pointerId = e.pointerId;
+    drag.lastX = e.clientX;
+
+    if (e.pointerType !== 'mouse') {
+      moveCursor(e);
+      touchMotion.reset();
+      const now = performance.now();
+      if (now - lastTap.time < DOUBLE_TAP_MS && Math.hypot(e.clientX - lastTap.x, e.clientY - lastTap.y) < DOUBLE_TAP_DISTANCE) {
+        emitIntent('summon', 'touch');
+        lastTap.time = 0;
+      } else {
+        Object.assign(lastTap, { time: now, x: e.clientX, y: e.clientY });
+      }
+    }
+  };
+
+  const handleMove = (e: PointerEvent) => {
+    // Touch only has a cursor while a finger is down
+    if (e.pointerType === 'mouse' || e.pointerId === drag.pointerId) moveCursor(e);
+    if (e.pointerId !== drag.pointerId) return;
+
+    const { galleryMode } = useInputStore.getState();
+    if (galleryMode) {
+      emitIntent('rotate', sourceOf(e), (e.clientX - drag.lastX) * DRAG_ROTATION);
+    } else if (e.pointerType !== 'mouse') {
+      const ndc = toNdc(e);
+      const motion = touchMotion.push(ndc.x, ndc.y, performance.now());
+      if (motion) emitIntent(MOTION_INTENTS[motion], 'touch');
+    }
+    drag.lastX = e.clientX;
+  };
+
+  const handleUp = (e: PointerEvent) => {
+    if (e.pointerId !== drag.pointerId) return;
+    drag.pointerId = -1;
+    if (e.pointerType !== 'mouse') setCursors('touch', []);
+  };
+
+  // The wand rests mid-screen until the mouse first moves
+  setCursors('mouse', [{ source: 'mouse', slot: 0, position: new THREE.Vector2(0, 0), depth: 0 }]);
+
+  element.addEventListener('pointerdown', handleDown);
+  window.addEventListener('pointermove', handleMove);
+  window.addEventListener('pointerup', handleUp);
+  window.addEventListener('pointercancel', handleUp);
+
+  return () => {
+    element.removeEventListener('pointerdown', handleDown);
+    window.removeEventListener('pointermove', handleMove);
+    window.removeEventListener('pointerup', handleUp);
+    window.removeEventListener('pointercancel', handleUp);
+    setCursors('mouse', []);
+    setCursors('touch', []);
+  };
+};
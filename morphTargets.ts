@@ -0,0 +1,76 @@
+import { MorphTarget } from './types';
+
+// Morph shapes are drawn to an offscreen canvas and the foliage picks random opaque pixels.
+// Output is camera-facing local space (x right, y up), centred on the origin.
+const MORPH_WIDTH = 24; // World units the shape may span (fits the default camera at z = 24)
+const MORPH_HEIGHT = 14;
+const MORPH_DEPTH = 0.6; // Z jitter, so the shape keeps a little volume as the camera turns
+const ALPHA_THRESHOLD = 128;
+const TEXT_CANVAS = { width: 1024, height: 256 };
+const IMAGE_MAX_SIZE = 512; // Longest side of an uploaded logo once drawn
+
+const drawText = (text: string) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = TEXT_CANVAS.width;
+  canvas.height = TEXT_CANVAS.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  let fontSize = canvas.height * 0.8;
+  ctx.font = `700 ${fontSize}px Cinzel, serif`;
+  // Long words shrink to fit the width instead of being clipped
+  const measured = ctx.measureText(text).width;
+  if (measured > canvas.width * 0.95) {
+    fontSize *= (canvas.width * 0.95) / measured;
+    ctx.font = `700 ${fontSize}px Cinzel, serif`;
+  }
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#fff';
+  ctx.fillText(text, canvas.width / 2, canvas.height / 2);
+  return canvas;
+};
+
+const drawImage = (image: HTMLImageElement) => {
+  const fit = Math.min(1, IMAGE_MAX_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * fit));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * fit));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// Fills `out` (4 floats per particle: x, y, z, stagger delay 0..1). Returns false when the
+// target has no opaque pixels (empty text, fully transparent logo) and leaves `out` alone.
+export const sampleMorphTarget = (target: MorphTarget, out: Float32Array) => {
+  const canvas = target.kind === 'text' ? drawText(target.text.trim()) : drawImage(target.image);
+  const { width, height } = canvas;
+  const { data } = canvas.getContext('2d')!.getImageData(0, 0, width, height);
+
+  const opaque: number[] = [];
+  for (let i = 0; i < width * height; i++) {
+    if (data[i * 4 + 3] > ALPHA_THRESHOLD) opaque.push(i);
+  }
+  if (opaque.length === 0) return false;
+
+  // Scale the drawn bounds, not the canvas, so short words still fill the frame
+  let minX = width, maxX = 0, minY = height, maxY = 0;
+  for (const i of opaque) {
+    const x = i % width;
+    const y = Math.floor(i / width);
+    minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+  }
+  const scale = Math.min(MORPH_WIDTH / (maxX - minX + 1), MORPH_HEIGHT / (maxY - minY + 1));
+  const centerX = (minX + maxX + 1) / 2;
+  const centerY = (minY + maxY + 1) / 2;
+
+  const count = out.length / 4;
+  for (let p = 0; p < count; p++) {
+    const i = opaque[Math.floor(Math.random() * opaque.length)];
+    out[p * 4] = ((i % width) + Math.random() - centerX) * scale;
+    out[p * 4 + 1] = (centerY - Math.floor(i / width) - Math.random()) * scale;
+    out[p * 4 + 2] = (Math.random() - 0.5) * MORPH_DEPTH;
+    out[p * 4 + 3] = Math.random();
+  }
+  return true;
+};
@@ -0,0 +1,119 @@
+import { HandOwnership, ParallaxMode, QualityMode, TreeSettings } from './types';
+import { QUALITY_TIERS } from './quality';
+import { TREE_PROFILE_IDS } from './treeProfiles';
+
+// Settings survive reloads in localStorage; photo binaries are too big for it and go to IndexedDB.
+const SETTINGS_KEY = 'lumiere-noel.settings';
+const PHOTO_DB = 'lumiere-noel';
+const PHOTO_STORE = 'photos';
+
+export interface SavedSession {
+  settings: TreeSettings;
+  customText: string;
+}
+
+// --- Settings ---
+// Settings that index lookup tables: an unknown id would crash the scene on load
+const SETTING_CHOICES: Partial<Record<keyof TreeSettings, readonly unknown[]>> = {
+  parallaxMode: ['hand', 'head'] satisfies ParallaxMode[],
+  handOwnership: ['first-come', 'largest', 'majority'] satisfies HandOwnership[],
+  quality: ['auto', ...QUALITY_TIERS] satisfies QualityMode[],
+  treeProfile: TREE_PROFILE_IDS,
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Checked against the allowed ids, or else against the kind of value the default holds
+const isValidSetting = (key: keyof TreeSettings, value: unknown, fallback: unknown) => {
+  const choices = SETTING_CHOICES[key];
+  if (choices) return choices.includes(value);
+  if (Array.isArray(fallback)) return Array.isArray(value) && value.length === fallback.length && value.every(isFiniteNumber);
+  if (typeof fallback === 'number') return isFiniteNumber(value);
+  return typeof value === typeof fallback;
+};
+
+// Field by field, so one stale or hand-edited value only costs that setting
+const readSettings = (saved: unknown, defaults: TreeSettings): TreeSettings => {
+  if (typeof saved !== 'object' || saved === null) return defaults;
+  const settings = { ...defaults }; // Fields added since the last save keep their defaults
+  for (const key of Object.keys(defaults) as (keyof TreeSettings)[]) {
+    const value = (saved as Record<string, unknown>)[key];
+    if (value === undefined) continue;
+    if (isValidSetting(key, value, defaults[key])) Object.assign(settings, { [key]: value });
+    else console.warn(`Ignoring saved setting ${key}:`, value);
+  }
+  return settings;
+};
+
+export const loadSession = (defaults: SavedSession): SavedSession => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return defaults;
+    const saved = JSON.parse(raw) as Partial<Record<keyof SavedSession, unknown>>;
+    return {
+      settings: readSettings(saved.settings, defaults.settings),
+      customText: typeof saved.customText === 'string' ? saved.customText : defaults.customText,
+    };
+  } catch (e) {
+    console.error("Failed to read saved settings:", e);
+    return defaults;
+  }
+};
+
+export const saveSession = (session: SavedSession) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(session));
+  } catch (e) {
+    console.error("Failed to save settings:", e);
+  }
+};
+
+// --- Photos ---
+export interface StoredPhoto {
+  id: number; // Auto-increment key, so upload order is kept
+  blob: Blob;
+}
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const openPhotoDb = () => {
+  if (!dbPromise) {
+    const req = indexedDB.open(PHOTO_DB, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(PHOTO_STORE, { keyPath: 'id', autoIncrement: true });
+    dbPromise = request(req);
+    dbPromise.catch(() => { dbPromise = null; }); // Let the next call retry
+  }
+  return dbPromise;
+};
+
+export const loadStoredPhotos = async (): Promise<StoredPhoto[]> => {
+  const db = await openPhotoDb();
+  return request(db.transaction(PHOTO_STORE).objectStore(PHOTO_STORE).getAll() as IDBRequest<StoredPhoto[]>);
+};
+
+// Resolves with the new records once they are all written
+export const storePhotos = async (blobs: Blob[]): Promise<StoredPhoto[]> => {
+  const db = await openPhotoDb();
+  const tx = db.transaction(PHOTO_STORE, 'readwrite');
+  const store = tx.objectStore(PHOTO_STORE);
+  const [ids] = await Promise.all([Promise.all(blobs.map(blob => request(store.add({ blob })))), transactionDone(tx)]);
+  return ids.map((id, i) => ({ id: id as number, blob: blobs[i] }));
+};
+
+export const clearStoredPhotos = async () => {
+  const db = await openPhotoDb();
+  const tx = db.transaction(PHOTO_STORE, 'readwrite');
+  const done = transactionDone(tx);
+  tx.objectStore(PHOTO_STORE).clear();
+  await done;
+};
@@ -0,0 +1,46 @@
+import { QualityProfile, QualityTier } from './types';
+
+// Cheapest first; the auto governor steps along this list
+export const QUALITY_TIERS: QualityTier[] = ['low', 'medium', 'high', 'ultra'];
+
+// What each tier spends. 'high' is the original fixed budget.
+export const QUALITY_PROFILES: Record<QualityTier, QualityProfile> = {
+  low: { foliageCount: 8000, decoCount: 600, starCount: 2000, sparkleCount: 120, goldDustSize: 24, maxDpr: 0.75, bloomLevels: 4, environment: false },
+  medium: { foliageCount: 15000, decoCount: 1200, starCount: 4000, sparkleCount: 250, goldDustSize: 32, maxDpr: 1, bloomLevels: 6, environment: true },
+  high: { foliageCount: 25000, decoCount: 2000, starCount: 8000, sparkleCount: 500, goldDustSize: 40, maxDpr: 2, bloomLevels: 9, environment: true },
+  ultra: { foliageCount: 200000, decoCount: 4000, starCount: 12000, sparkleCount: 800, goldDustSize: 128, maxDpr: 2, bloomLevels: 9, environment: true },
+};
+
+export const DEFAULT_AUTO_TIER: QualityTier = 'high';
+
+// FPS band the auto governor holds: below the lower bound it steps down, above the upper it
+// tries the next tier up. High refresh displays get a higher floor.
+export const qualityFpsBounds = (refreshRate: number): [number, number] =>
+  refreshRate > 100 ? [60, 100] : [45, 58];
+
+// Steps the auto tier on the FPS monitor's incline / decline. A tier that had to be left
+// right after climbing into it becomes the ceiling, so the scene doesn't bounce between two.
+export const createQualityGovernor = (initial: QualityTier = DEFAULT_AUTO_TIER) => {
+  let index = QUALITY_TIERS.indexOf(initial);
+  let ceiling = QUALITY_TIERS.length - 1;
+  let lastStep: 1 | -1 | null = null;
+
+  const incline = () => {
+    if (index < ceiling) {
+      index++;
+      lastStep = 1;
+    }
+    return QUALITY_TIERS[index];
+  };
+
+  const decline = () => {
+    if (lastStep === 1) ceiling = index - 1;
+    if (index > 0) {
+      index--;
+      lastStep = -1;
+    }
+    return QUALITY_TIERS[index];
+  };
+
+  return { incline, decline };
+};
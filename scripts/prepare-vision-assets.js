@@ -0,0 +1,52 @@
+// Copies the MediaPipe wasm runtime out of node_modules and fetches the vision models
+// into public/ so the app can run hand tracking without any network access.
+// Runs before `dev` and `build`; safe to re-run offline once the models are present.
+import { copyFile, mkdir, readdir, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const wasmSource = path.join(root, 'node_modules/@mediapipe/tasks-vision/wasm');
+const wasmTarget = path.join(root, 'public/mediapipe/wasm');
+const modelTarget = path.join(root, 'public/mediapipe/models');
+
+const MODELS = {
+  'gesture_recognizer.task': 'https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/gesture_recognizer.task',
+  'face_landmarker.task': 'https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task',
+};
+
+const exists = async (file) => {
+  try {
+    await stat(file);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const copyWasm = async () => {
+  await mkdir(wasmTarget, { recursive: true });
+  const files = await readdir(wasmSource);
+  await Promise.all(files.map(file => copyFile(path.join(wasmSource, file), path.join(wasmTarget, file))));
+  console.log(`[vision-assets] Copied ${files.length} wasm files to public/mediapipe/wasm`);
+};
+
+const fetchModels = async () => {
+  await mkdir(modelTarget, { recursive: true });
+  for (const [name, url] of Object.entries(MODELS)) {
+    const target = path.join(modelTarget, name);
+    if (await exists(target)) continue;
+    try {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      await writeFile(target, Buffer.from(await response.arrayBuffer()));
+      console.log(`[vision-assets] Downloaded ${name}`);
+    } catch (e) {
+      // Not fatal: the app reports the missing model in the vision panel
+      console.warn(`[vision-assets] Could not download ${name} (${e.message}). Place it at ${path.relative(root, target)} manually.`);
+    }
+  }
+};
+
+await copyWasm();
+await fetchModels();
@@ -0,0 +1,92 @@
+import * as THREE from 'three';
+
+// Foliage points: source positions are uploaded once; the explode displacement (radial
+// push out from the trunk plus a little vertical stretch) happens per vertex on the GPU.
+// For a morph every point also flies, in world space, to its slot in the morph shape.
+const vertexShader = /* glsl */ `
+#define MORPH_STAGGER 0.5 // Share of the transition spent waiting on per-point delays
+#define MORPH_ARC 2.0 // Lift at mid-flight, world units
+
+uniform float uExplode; // 0 (Tree) -> 1 (Exploded)
+uniform float uExpansion; // Radial push at full explode, world units
+uniform float uSize; // World-space point size
+uniform float uScale; // Half the drawing buffer height in device pixels
+uniform float uMorph; // 0 (Tree) -> 1 (Morph shape formed)
+uniform mat4 uMorphMatrix; // Morph shape space -> world, facing the camera
+
+attribute vec4 morphPosition; // xyz in morph shape space, w = delay 0..1
+
+varying vec3 vColor;
+
+void main() {
+    float dist = length(position.xz);
+    vec2 normal = dist > 0.0 ? position.xz / dist : vec2(0.0);
+    vec3 displaced = vec3(
+        position.x + normal.x * uExplode * uExpansion,
+        position.y * (1.0 + uExplode * 0.3),
+        position.z + normal.y * uExplode * uExpansion
+    );
+
+    float progress = clamp(uMorph * (1.0 + MORPH_STAGGER) - morphPosition.w * MORPH_STAGGER, 0.0, 1.0);
+    vec4 worldPosition = mix(modelMatrix * vec4(displaced, 1.0), uMorphMatrix * vec4(morphPosition.xyz, 1.0), smoothstep(0.0, 1.0, progress));
+    worldPosition.y += sin(progress * 3.14159265) * MORPH_ARC;
+
+    vec4 mvPosition = viewMatrix * worldPosition;
+    gl_PointSize = uSize * (uScale / -mvPosition.z);
+    gl_Position = projectionMatrix * mvPosition;
+    vColor = color;
+}
+`;
+
+// Round, anti-aliased points (same mask as drei's PointMaterial)
+const fragmentShader = /* glsl */ `
+uniform float uOpacity;
+
+varying vec3 vColor;
+
+void main() {
+    vec2 cxy = 2.0 * gl_PointCoord - 1.0;
+    float r = dot(cxy, cxy);
+    float delta = fwidth(r);
+    float mask = 1.0 - smoothstep(1.0 - delta, 1.0 + delta, r);
+    gl_FragColor = vec4(vColor, uOpacity * mask);
+    #include <colorspace_fragment>
+}
+`;
+
+export interface FoliageMaterialOptions {
+  size: number; // World-space point size, like PointsMaterial.size
+  expansion: number; // Radial push at full explode
+}
+
+export const createFoliageMaterial = ({ size, expansion }: FoliageMaterialOptions) => new THREE.ShaderMaterial({
+  uniforms: {
+    uExplode: { value: 0 },
+    uExpansion: { value: expansion },
+    uSize: { value: size },
+    uScale: { value: 1 },
+    uOpacity: { value: 1 },
+    uMorph: { value: 0 },
+    uMorphMatrix: { value: new THREE.Matrix4() },
+  },
+  vertexShader,
+  fragmentShader,
+  vertexColors: true,
+  transparent: true,
+  depthWrite: false,
+  blending: THREE.AdditiveBlending,
+  toneMapped: false,
+});
+
+// Per frame: explode factor, opacity, and the size attenuation term PointsMaterial refreshes itself
+export const updateFoliageMaterial = (material: THREE.ShaderMaterial, explode: number, opacity: number, bufferHeight: number) => {
+  material.uniforms.uExplode.value = explode;
+  material.uniforms.uOpacity.value = opacity;
+  material.uniforms.uScale.value = bufferHeight * 0.5;
+};
+
+// Per frame while morphing: how far along the points are, and where the shape sits in the world
+export const updateFoliageMorph = (material: THREE.ShaderMaterial, morph: number, morphMatrix: THREE.Matrix4) => {
+  material.uniforms.uMorph.value = morph;
+  material.uniforms.uMorphMatrix.value.copy(morphMatrix);
+};
@@ -0,0 +1,208 @@
+import * as THREE from 'three';
+import { GPUComputationRenderer, Variable } from 'three/examples/jsm/misc/GPUComputationRenderer.js';
+
+// Gold dust integrator on the GPU: one texel per particle in ping-pong position / velocity
+// textures. Stepped at a fixed rate so the motion is the same at 30 Hz and 144 Hz; all
+// constants are per step, matching the old per-frame CPU loop at 60 FPS.
+export const SIMULATION_STEP = 1 / 60; // Seconds
+const MAX_STEPS_PER_FRAME = 4; // After a long stall, drop time instead of spiralling
+
+// Acceleration shared by both passes. Each pass reads last step's textures, so the position
+// pass recomputes the same velocity update (drift noise included) instead of lagging a step.
+const integrateChunk = /* glsl */ `
+uniform sampler2D uBasePositions;
+uniform float uExplode;
+uniform float uSeed;
+uniform vec3 uAttractors[MAX_ATTRACTORS];
+uniform int uAttractorCount;
+uniform float uAttractRange; // Squared distance
+uniform float uAttractStrength;
+
+float hash(vec2 p) {
+    return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+}
+
+vec3 integrateVelocity(vec2 uv, vec3 position, vec3 velocity) {
+    vec3 target = texture2D(uBasePositions, uv).xyz * (1.0 + uExplode * 2.5);
+
+    // Base drift once the tree opens up
+    if (uExplode > 0.1) {
+        velocity += (vec3(hash(uv + uSeed), hash(uv + uSeed + 17.0), hash(uv + uSeed + 31.0)) - 0.5) * 0.005;
+    }
+
+    // Attraction to every hand / cursor in range
+    for (int i = 0; i < MAX_ATTRACTORS; i++) {
+        if (i >= uAttractorCount) break;
+        vec3 toAttractor = uAttractors[i] - position;
+        if (dot(toAttractor, toAttractor) < uAttractRange) velocity += toAttractor * uAttractStrength;
+    }
+
+    // Return to base shape spring
+    velocity += (target - position) * (0.02 - uExplode * 0.015);
+    return velocity;
+}
+`;
+
+const velocityShader = /* glsl */ `
+${integrateChunk}
+
+void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    vec3 position = texture2D(texturePosition, uv).xyz;
+    vec3 velocity = integrateVelocity(uv, position, texture2D(textureVelocity, uv).xyz);
+    float friction = uExplode < 0.1 ? 0.92 : 0.96;
+    gl_FragColor = vec4(velocity * friction, 1.0);
+}
+`;
+
+const positionShader = /* glsl */ `
+${integrateChunk}
+
+void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    vec3 position = texture2D(texturePosition, uv).xyz;
+    vec3 velocity = integrateVelocity(uv, position, texture2D(textureVelocity, uv).xyz);
+    gl_FragColor = vec4(position + velocity, 1.0);
+}
+`;
+
+export interface GoldDustStepParams {
+  explode: number; // 0 (Tree) -> 1 (Exploded)
+  attractors: THREE.Vector3[]; // At most maxAttractors, extra points are ignored
+  attractRange: number; // Squared distance
+  attractStrength: number; // Per step
+}
+
+export interface GoldDustSimulation {
+  count: number;
+  references: Float32Array; // Per particle uv into the state textures, for the render material
+  update: (delta: number, params: GoldDustStepParams) => void;
+  getPositionTexture: () => THREE.Texture;
+  dispose: () => void;
+}
+
+// `size` x `size` particles scattered in a 40 x 40 x 30 box around the tree
+export const createGoldDustSimulation = (renderer: THREE.WebGLRenderer, size: number, maxAttractors: number): GoldDustSimulation => {
+  const gpuCompute = new GPUComputationRenderer(size, size, renderer);
+
+  const basePositions = gpuCompute.createTexture();
+  const initialVelocities = gpuCompute.createTexture();
+  const base = basePositions.image.data as Float32Array;
+  const vel = initialVelocities.image.data as Float32Array;
+  for (let i = 0; i < size * size; i++) {
+    base[i * 4] = (Math.random() - 0.5) * 40;
+    base[i * 4 + 1] = (Math.random() - 0.5) * 40;
+    base[i * 4 + 2] = (Math.random() - 0.5) * 30;
+    base[i * 4 + 3] = 1;
+    vel[i * 4] = (Math.random() - 0.5) * 0.02;
+    vel[i * 4 + 1] = (Math.random() - 0.5) * 0.02;
+    vel[i * 4 + 2] = (Math.random() - 0.5) * 0.02;
+    vel[i * 4 + 3] = 1;
+  }
+  const initialPositions = gpuCompute.createTexture();
+  (initialPositions.image.data as Float32Array).set(base);
+
+  const positionVariable: Variable = gpuCompute.addVariable('texturePosition', positionShader, initialPositions);
+  const velocityVariable: Variable = gpuCompute.addVariable('textureVelocity', velocityShader, initialVelocities);
+  gpuCompute.setVariableDependencies(positionVariable, [positionVariable, velocityVariable]);
+  gpuCompute.setVariableDependencies(velocityVariable, [positionVariable, velocityVariable]);
+
+  const uniforms = {
+    uBasePositions: { value: basePositions },
+    uExplode: { value: 0 },
+    uSeed: { value: 0 },
+    uAttractors: { value: Array.from({ length: maxAttractors }, () => new THREE.Vector3()) },
+    uAttractorCount: { value: 0 },
+    uAttractRange: { value: 0 },
+    uAttractStrength: { value: 0 },
+  };
+  for (const variable of [positionVariable, velocityVariable]) {
+    Object.assign(variable.material.uniforms, uniforms);
+    variable.material.defines.MAX_ATTRACTORS = maxAttractors;
+  }
+
+  const error = gpuCompute.init();
+  if (error) throw new Error(error);
+
+  const references = new Float32Array(size * size * 2);
+  for (let i = 0; i < size * size; i++) {
+    references[i * 2] = ((i % size) + 0.5) / size;
+    references[i * 2 + 1] = (Math.floor(i / size) + 0.5) / size;
+  }
+
+  let accumulator = 0;
+
+  const update = (delta: number, { explode, attractors, attractRange, attractStrength }: GoldDustStepParams) => {
+    accumulator = Math.min(accumulator + delta, SIMULATION_STEP * MAX_STEPS_PER_FRAME);
+    if (accumulator < SIMULATION_STEP) return;
+
+    // Uniform objects are shared by both passes
+    uniforms.uExplode.value = explode;
+    uniforms.uAttractorCount.value = Math.min(attractors.length, maxAttractors);
+    attractors.slice(0, maxAttractors).forEach((point, i) => uniforms.uAttractors.value[i].copy(point));
+    uniforms.uAttractRange.value = attractRange;
+    uniforms.uAttractStrength.value = attractStrength;
+
+    while (accumulator >= SIMULATION_STEP) {
+      uniforms.uSeed.value = (uniforms.uSeed.value + 1) % 1000;
+      gpuCompute.compute();
+      accumulator -= SIMULATION_STEP;
+    }
+  };
+
+  return {
+    count: size * size,
+    references,
+    update,
+    getPositionTexture: () => gpuCompute.getCurrentRenderTarget(positionVariable).texture,
+    dispose: () => {
+      gpuCompute.dispose();
+      basePositions.dispose();
+    },
+  };
+};
+
+// Points read their position from the simulation texture; same look as the old PointMaterial
+const vertexShader = /* glsl */ `
+uniform sampler2D uPositions;
+uniform float uSize;
+uniform float uScale;
+
+attribute vec2 reference;
+
+void main() {
+    vec4 mvPosition = modelViewMatrix * vec4(texture2D(uPositions, reference).xyz, 1.0);
+    gl_PointSize = uSize * (uScale / -mvPosition.z);
+    gl_Position = projectionMatrix * mvPosition;
+}
+`;
+
+const fragmentShader = /* glsl */ `
+uniform vec3 uColor;
+uniform float uOpacity;
+
+void main() {
+    vec2 cxy = 2.0 * gl_PointCoord - 1.0;
+    float r = dot(cxy, cxy);
+    float delta = fwidth(r);
+    float mask = 1.0 - smoothstep(1.0 - delta, 1.0 + delta, r);
+    gl_FragColor = vec4(uColor, uOpacity * mask);
+    #include <colorspace_fragment>
+}
+`;
+
+export const createGoldDustMaterial = (size: number) => new THREE.ShaderMaterial({
+  uniforms: {
+    uPositions: { value: null },
+    uSize: { value: size },
+    uScale: { value: 1 },
+    uColor: { value: new THREE.Color() },
+    uOpacity: { value: 1 },
+  },
+  vertexShader,
+  fragmentShader,
+  transparent: true,
+  depthWrite: false,
+  blending: THREE.AdditiveBlending,
+  toneMapped: false,
+});
@@ -1,13 +1,33 @@
 import { create } from 'zustand';
 import * as THREE from 'three';
-import { GestureState } from './types';
+import { GestureState, Handedness, InputCursor, InputIntent, InputIntentType, InputSource, MotionEvent, TrackedHand, VisionStatus, VisionDelegate } from './types';
 
 interface VisionState {
   // Transient Data (High Frequency)
   isHandDetected: boolean;
   handPosition: THREE.Vector3;
+  handScreenPosition: THREE.Vector2; // NDC (-1..1) within the user's calibrated reach
+  handDepth: number; // -1 (Pulled Back) -> 1 (Pushed Toward Screen)
+  handedness: Handedness | null; // Owner's own left / right hand
   gesture: GestureState;
+  gestureScore: number; // MediaPipe category score for the owner this frame
   gestureFactor: number; // 0 (Tight/Fist) -> 1 (Open/Explode)
+  trackedHands: TrackedHand[]; // Every hand in view (up to 4), with stable ids; fields above follow the owner
+  rawGesture: GestureState; // Undebounced classification, for the preview overlay
+  gestureStability: number; // Frames the raw gesture has held so far
+  gestureRejected: boolean; // Owner's match this frame was too unsure to count toward the debounce
+  landmarkVisibility: number[]; // Owner's per-landmark visibility (0..1)
+  pinchDistance: number; // World units between two pinching hands, 0 when not dual pinching
+  pinchAngle: number; // Radians of the line between the two pinching hands
+  lastMotion: MotionEvent | null; // Most recent swipe / stir; consumers track the timestamp they handled
+  isHeadDetected: boolean;
+  headPosition: THREE.Vector2; // Viewer's head in mirrored NDC (-1..1), +x = viewer's right
+
+  // Model Loading (Low Frequency)
+  visionStatus: VisionStatus;
+  visionDelegate: VisionDelegate | null; // Which MediaPipe backend actually loaded
+  visionMessage: string | null; // Fallback notice or failure reason for the vision panel
+  headTrackingStatus: VisionStatus; // Face model, loaded only once head parallax is selected
 
   // Actions
   updateVisionData: (data: Partial<Omit<VisionState, 'updateVisionData'>>) => void;
@@ -18,8 +38,97 @@ interface VisionState {
 export const useVisionStore = create<VisionState>((set) => ({
   isHandDetected: false,
   handPosition: new THREE.Vector3(0, 0, 0),
+  handScreenPosition: new THREE.Vector2(0, 0),
+  handDepth: 0,
+  handedness: null,
   gesture: GestureState.IDLE,
+  gestureScore: 0,
   gestureFactor: 0,
+  trackedHands: [],
+  rawGesture: GestureState.IDLE,
+  gestureStability: 0,
+  gestureRejected: false,
+  landmarkVisibility: [],
+  pinchDistance: 0,
+  pinchAngle: 0,
+  lastMotion: null,
+  isHeadDetected: false,
+  headPosition: new THREE.Vector2(0, 0),
+
+  visionStatus: 'idle',
+  visionDelegate: null,
+  visionMessage: null,
+  headTrackingStatus: 'idle',
 
   updateVisionData: (data) => set((state) => ({ ...state, ...data })),
 }));
+
+// --- Input Intents ---
+// Devices write here (see input/); scene components only read intents, never devices.
+
+interface InputState {
+  cursors: Partial<Record<InputSource, InputCursor[]>>; // Per source, see selectCursors
+  explodeTargets: Partial<Record<InputSource, number>>; // 0 (Tree) -> 1 (Explode), per source
+  summonHolds: Partial<Record<InputSource, boolean>>; // A source is holding the photo up
+  intents: InputIntent[]; // Recent discrete intents, oldest first
+  galleryMode: boolean; // Context for sources (drag spins the ring only in gallery mode)
+
+  setCursors: (source: InputSource, cursors: InputCursor[]) => void;
+  setExplodeTarget: (source: InputSource, target: number | null) => void;
+  setSummonHeld: (source: InputSource, held: boolean) => void;
+  emitIntent: (type: InputIntentType, source: InputSource, amount?: number) => void;
+  setGalleryMode: (galleryMode: boolean) => void;
+}
+
+const MAX_QUEUED_INTENTS = 64;
+let intentSeq = 0;
+
+export const useInputStore = create<InputState>((set) => ({
+  cursors: {},
+  explodeTargets: {},
+  summonHolds: {},
+  intents: [],
+  galleryMode: false,
+
+  setCursors: (source, cursors) => set((state) => ({ cursors: { ...state.cursors, [source]: cursors } })),
+  setExplodeTarget: (source, target) => set((state) => {
+    const explodeTargets = { ...state.explodeTargets };
+    if (target === null) delete explodeTargets[source];
+    else explodeTargets[source] = target;
+    return { explodeTargets };
+  }),
+  setSummonHeld: (source, held) => set((state) =>
+    state.summonHolds[source] === held ? state : { summonHolds: { ...state.summonHolds, [source]: held } }
+  ),
+  emitIntent: (type, source, amount) => set((state) => ({
+    intents: [...state.intents, { seq: ++intentSeq, type, source, amount, timestamp: performance.now() }].slice(-MAX_QUEUED_INTENTS)
+  })),
+  setGalleryMode: (galleryMode) => set({ galleryMode }),
+}));
+
+// Hands win over a gamepad, the gamepad over touch, touch over the mouse (the mouse cursor parks while someone gestures)
+const CURSOR_PRIORITY: InputSource[] = ['hand', 'gamepad', 'touch', 'mouse'];
+
+export const selectCursors = (state: InputState): InputCursor[] => {
+  for (const source of CURSOR_PRIORITY) {
+    const cursors = state.cursors[source];
+    if (cursors && cursors.length > 0) return cursors;
+  }
+  return [];
+};
+
+// Strongest request wins: an open palm explodes even with the slider at zero
+export const selectExplodeTarget = (state: InputState) => Math.max(0, ...Object.values(state.explodeTargets));
+
+export const selectSummonHeld = (state: InputState) => Object.values(state.summonHolds).some(Boolean);
+
+// Each consumer reads the intents it hasn't seen yet; older ones are never replayed
+export const createIntentReader = () => {
+  let lastSeq = intentSeq;
+  return () => {
+    const fresh = useInputStore.getState().intents.filter(intent => intent.seq > lastSeq);
+    if (fresh.length > 0) lastSeq = fresh[fresh.length - 1].seq;
+    return fresh;
+  };
+};
+
@@ -0,0 +1,173 @@
+import { EnvironmentPreset, Theme } from './types';
+
+const STORAGE_KEY = 'lumiere-noel.themes';
+
+export const ENVIRONMENT_PRESETS: EnvironmentPreset[] = [
+  'apartment', 'city', 'dawn', 'forest', 'lobby', 'night', 'park', 'studio', 'sunset', 'warehouse',
+];
+
+// --- Built-in Themes ---
+export const BUILT_IN_THEMES: Theme[] = [
+  {
+    id: 'warm',
+    name: '皇家金绿',
+    palette: {
+      foliage: '#02260e', // Deep Emerald
+      ornaments: ['#FFD700', '#E5E4E2', '#B22222', '#CD7F32'], // Gold, Silver, Red, Bronze
+      glow: '#FFD700',
+      photoFrame: '#FFFFFF',
+      background: '#1a1a1a',
+    },
+    words: { defaults: ['JOY', 'WEALTH', 'LUXURY', '2025'], color: '#FFD700', outline: '#553300', glow: '#FFA500' },
+    particles: {
+      highlight: '#FFD700',
+      accent: '#FF4500',
+      dust: '#FDB931',
+      sparkles: '#FFFFFF',
+      topperSparkles: '#FFD700',
+      meteors: '#FFFFFF',
+    },
+    lights: { ambient: '#001100', key: '#FFD700', fill: '#00FF88' },
+    environment: 'city',
+    ui: { accent: '#F59E0B' },
+  },
+  {
+    id: 'cool',
+    name: '极地钻光',
+    palette: {
+      foliage: '#0F172A', // Midnight Blue
+      ornaments: ['#00FFFF', '#FFFFFF', '#1E90FF', '#9370DB'], // Cyan, White, Deep Blue, Purple
+      glow: '#00FFFF',
+      photoFrame: '#E0F7FA',
+      background: '#0F172A',
+    },
+    words: { defaults: ['PEACE', 'DREAMS', 'FUTURE', 'NOËL'], color: '#E0F7FA', outline: '#003344', glow: '#00FFFF' },
+    particles: {
+      highlight: '#E0F7FA',
+      accent: '#00BFFF',
+      dust: '#E0F7FA',
+      sparkles: '#A5F2F3',
+      topperSparkles: '#FFFFFF',
+      meteors: '#00FFFF',
+    },
+    lights: { ambient: '#000022', key: '#00FFFF', fill: '#9370DB' },
+    environment: 'dawn',
+    ui: { accent: '#22D3EE' },
+  },
+  {
+    id: 'crimson',
+    name: '绯红圣诞',
+    palette: {
+      foliage: '#0A3A1A', // Pine
+      ornaments: ['#C8102E', '#FFFFFF', '#FFD700', '#8B0000'], // Red, Snow, Gold, Wine
+      glow: '#FF3B3B',
+      photoFrame: '#FFF5F5',
+      background: '#1F0A0A',
+    },
+    words: { defaults: ['NOËL', 'FAMILY', 'LOVE', 'CHEER'], color: '#FFE4E1', outline: '#4A0000', glow: '#FF2D2D' },
+    particles: {
+      highlight: '#FFFFFF',
+      accent: '#FF2D2D',
+      dust: '#FFB3B3',
+      sparkles: '#FFE4E1',
+      topperSparkles: '#FFD700',
+      meteors: '#FFFFFF',
+    },
+    lights: { ambient: '#110000', key: '#FF4D4D', fill: '#FFD700' },
+    environment: 'sunset',
+    ui: { accent: '#F43F5E' },
+  },
+  {
+    id: 'aurora',
+    name: '北境极光',
+    palette: {
+      foliage: '#052E2B', // Dark Teal
+      ornaments: ['#7CFFCB', '#B388FF', '#E0F2FF', '#3DDC97'], // Mint, Violet, Frost, Green
+      glow: '#7CFFCB',
+      photoFrame: '#E6FFF7',
+      background: '#06121F',
+    },
+    words: { defaults: ['WONDER', 'HOPE', 'STARLIGHT', 'NOËL'], color: '#DFFFF4', outline: '#0B3B36', glow: '#3DDC97' },
+    particles: {
+      highlight: '#B388FF',
+      accent: '#7CFFCB',
+      dust: '#C8FFE9',
+      sparkles: '#B388FF',
+      topperSparkles: '#E0F2FF',
+      meteors: '#7CFFCB',
+    },
+    lights: { ambient: '#001111', key: '#3DDC97', fill: '#B388FF' },
+    environment: 'night',
+    ui: { accent: '#34D399' },
+  },
+];
+
+export const DEFAULT_THEME_ID = BUILT_IN_THEMES[0].id;
+
+export const isBuiltInTheme = (id: string) => BUILT_IN_THEMES.some(theme => theme.id === id);
+
+// Unknown ids (a deleted theme, a stale save) fall back to the default
+export const findTheme = (themes: Theme[], id: string) => themes.find(theme => theme.id === id) ?? BUILT_IN_THEMES[0];
+
+export const createThemeId = () => `t-${Date.now().toString(36)}`;
+
+// --- Validation ---
+const isColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+// Walks the reference theme: every field must be present with the same kind of value.
+// Returns a copy with only the known fields, so stray keys in a file never reach the scene.
+const readLike = (value: unknown, reference: unknown, path: string): unknown => {
+  if (Array.isArray(reference)) {
+    if (!Array.isArray(value) || value.length === 0) throw new Error(`${path} must be a non-empty list`);
+    return value.map((item, i) => readLike(item, reference[0], `${path}[${i}]`));
+  }
+  if (typeof reference === 'object' && reference !== null) {
+    if (typeof value !== 'object' || value === null) throw new Error(`${path} must be an object`);
+    return Object.fromEntries(Object.keys(reference).map(key =>
+      [key, readLike((value as Record<string, unknown>)[key], (reference as Record<string, unknown>)[key], `${path}.${key}`)]
+    ));
+  }
+  if (isColor(reference) && !isColor(value)) throw new Error(`${path} must be a #rrggbb colour`);
+  if (typeof value !== 'string') throw new Error(`${path} must be a string`);
+  return value;
+};
+
+// Throws with the offending field when the value isn't a theme
+const validateTheme = (value: unknown): Theme => {
+  const theme = readLike(value, BUILT_IN_THEMES[0], 'theme') as Theme;
+  if (!ENVIRONMENT_PRESETS.includes(theme.environment)) throw new Error(`theme.environment must be one of ${ENVIRONMENT_PRESETS.join(', ')}`);
+  return theme;
+};
+
+export const parseTheme = (json: string): Theme => validateTheme(JSON.parse(json));
+
+export const serializeTheme = (theme: Theme) => JSON.stringify(theme, null, 2);
+
+// --- Persistence ---
+// Stored themes get the same checks as imports; a broken entry is dropped, not rendered
+export const loadCustomThemes = (): Theme[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const stored: unknown = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(stored)) throw new Error('Saved themes are not a list');
+    return stored.flatMap(entry => {
+      try {
+        return [validateTheme(entry)];
+      } catch (e) {
+        console.warn("Dropping invalid saved theme:", e);
+        return [];
+      }
+    });
+  } catch (e) {
+    console.error("Failed to read custom themes:", e);
+    return [];
+  }
+};
+
+export const saveCustomThemes = (themes: Theme[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(themes));
+  } catch (e) {
+    console.error("Failed to save custom themes:", e);
+  }
+};
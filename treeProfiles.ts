@@ -0,0 +1,92 @@
+import * as THREE from 'three';
+import { TreeProfileId, TreeSettings } from './types';
+
+// Silhouettes are radius fractions (0..1 of the tree radius) over normalized height
+// (0 = bottom, 1 = tip). The tree is centred on y = 0.
+type RadiusCurve = (h: number, spline: number[]) => number;
+
+const SPIRAL_LOOPS = 5; // Turns of the photo spiral, and of the ribbon in the spiral profile
+const TIER_COUNT = 5; // Layers of the tiered fir
+
+// Uniform Catmull-Rom through evenly spaced control points (bottom -> top)
+const sampleSpline = (points: number[], h: number) => {
+  if (points.length === 0) return 0;
+  if (points.length === 1) return points[0];
+  const x = THREE.MathUtils.clamp(h, 0, 1) * (points.length - 1);
+  const i = Math.min(Math.floor(x), points.length - 2);
+  const t = x - i;
+  const p0 = points[Math.max(i - 1, 0)];
+  const p1 = points[i];
+  const p2 = points[i + 1];
+  const p3 = points[Math.min(i + 2, points.length - 1)];
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return 0.5 * (2 * p1 + (p2 - p0) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t2 + (3 * p1 - p0 - 3 * p2 + p3) * t3);
+};
+
+const RADIUS_CURVES: Record<TreeProfileId, RadiusCurve> = {
+  classic: (h) => Math.pow(1 - h, 0.8),
+  // Each layer flares out at its base, stacked on an overall cone
+  tiered: (h) => Math.pow(1 - h, 0.9) * (0.55 + 0.45 * (1 - ((h * TIER_COUNT) % 1))),
+  // Narrow column, rounded at the bottom and drawn to a point at the top
+  cypress: (h) => 0.42 * Math.sqrt(1 - h) * Math.min(1, 0.6 + h * 4),
+  spiral: (h) => 1 - h,
+  spline: (h, spline) => Math.max(0, sampleSpline(spline, h)),
+};
+
+export const TREE_PROFILE_IDS = Object.keys(RADIUS_CURVES) as TreeProfileId[];
+
+export const DEFAULT_TREE_SPLINE = [1, 0.75, 0.5, 0.28, 0.05]; // Radius fractions, bottom -> top
+
+export interface TreeShape {
+  profile: TreeProfileId;
+  height: number;
+  radius: number;
+  radiusAt: (y: number) => number; // Outer radius at world height y
+  sampleVolume: () => THREE.Vector3; // Foliage point inside the silhouette
+  sampleSurface: () => THREE.Vector3; // Ornament point near the outer surface
+}
+
+export const createTreeShape = ({ treeProfile, treeHeight, treeRadius, treeSpline }: Pick<TreeSettings, 'treeProfile' | 'treeHeight' | 'treeRadius' | 'treeSpline'>): TreeShape => {
+  const curve = RADIUS_CURVES[treeProfile];
+  const radiusAt = (y: number) => {
+    const h = THREE.MathUtils.clamp((y + treeHeight / 2) / treeHeight, 0, 1);
+    return curve(h, treeSpline) * treeRadius;
+  };
+
+  // Spiral profile: everything sits on a ribbon following the photo spiral
+  const sampleRibbon = (spread: number) => {
+    const t = Math.random();
+    const y = THREE.MathUtils.lerp(-treeHeight / 2, treeHeight / 2, t);
+    const theta = -t * SPIRAL_LOOPS * Math.PI * 2 + (Math.random() - 0.5) * spread;
+    const r = radiusAt(y) * (0.85 + Math.random() * 0.15);
+    return new THREE.Vector3(r * Math.cos(theta), y + (Math.random() - 0.5) * spread, r * Math.sin(theta));
+  };
+
+  const sampleVolume = () => {
+    if (treeProfile === 'spiral') return sampleRibbon(0.6);
+    const y = (Math.random() - 0.5) * treeHeight;
+    const r = radiusAt(y) * Math.sqrt(Math.random());
+    const theta = Math.random() * Math.PI * 2 * 10 + y;
+    return new THREE.Vector3(r * Math.cos(theta), y, r * Math.sin(theta));
+  };
+
+  const sampleSurface = () => {
+    if (treeProfile === 'spiral') return sampleRibbon(0.3);
+    const y = (Math.random() - 0.5) * treeHeight;
+    const r = radiusAt(y) * (0.8 + Math.random() * 0.2);
+    const theta = Math.random() * Math.PI * 2;
+    return new THREE.Vector3(r * Math.cos(theta), y, r * Math.sin(theta));
+  };
+
+  return { profile: treeProfile, height: treeHeight, radius: treeRadius, radiusAt, sampleVolume, sampleSurface };
+};
+
+// Where photo `t` (0 = top, 1 = bottom) hangs on the tree: a spiral just outside the silhouette.
+// Shared by the photo ornaments and the summon start position so they always agree.
+export const getPhotoSpiralPosition = (shape: TreeShape, t: number) => {
+  const y = THREE.MathUtils.lerp(shape.height / 2 - 2, -shape.height / 2 + 2, t);
+  const r = shape.radiusAt(y) + 0.8;
+  const theta = t * SPIRAL_LOOPS * Math.PI * 2;
+  return new THREE.Vector3(r * Math.cos(theta), y, r * Math.sin(theta));
+};
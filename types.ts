@@ -1,17 +1,85 @@
 
-import { Vector3, Euler } from 'three';
+import { Vector2, Vector3, Euler } from 'three';
 
-export type ThemeMode = 'warm' | 'cool';
+// Drei <Environment> presets a theme can light the ornaments with
+export type EnvironmentPreset = 'apartment' | 'city' | 'dawn' | 'forest' | 'lobby' | 'night' | 'park' | 'studio' | 'sunset' | 'warehouse';
+
+// Everything that colours the scene and the panel. Built-ins live in themes.ts; user themes
+// have the same shape and are shared as JSON. Colours are #rrggbb.
+export interface Theme {
+  id: string;
+  name: string;
+  palette: {
+    foliage: string; // Base colour of the tree points
+    ornaments: string[]; // Cycled across the ornament instances
+    glow: string; // Topper, wand trail, shockwave, photo trails
+    photoFrame: string;
+    background: string; // Centre of the page gradient
+  };
+  words: {
+    defaults: string[]; // Floating words when no greeting is typed
+    color: string;
+    outline: string;
+    glow: string;
+  };
+  particles: {
+    highlight: string; // ~10% of the foliage points
+    accent: string; // ~5% of the foliage points
+    dust: string;
+    sparkles: string;
+    topperSparkles: string;
+    meteors: string;
+  };
+  lights: {
+    ambient: string;
+    key: string;
+    fill: string;
+  };
+  environment: EnvironmentPreset;
+  ui: {
+    accent: string; // Selected buttons, sliders and inputs in the panel
+  };
+}
+
+export type ParallaxMode = 'hand' | 'head'; // Camera parallax follows hand height or the viewer's head
+
+// Which of several tracked hands drives explode / assemble / summon
+export type HandOwnership = 'first-come' | 'largest' | 'majority';
+
+// Tree silhouette: layered fir, slim cypress, bare spiral ribbon, or a user-drawn curve
+export type TreeProfileId = 'classic' | 'tiered' | 'cypress' | 'spiral' | 'spline';
+
+// Render budget tiers; 'auto' lets the frame time pick one
+export type QualityTier = 'low' | 'medium' | 'high' | 'ultra';
+export type QualityMode = 'auto' | QualityTier;
+
+export interface QualityProfile {
+  foliageCount: number; // Tree points
+  decoCount: number; // Ornament instances
+  starCount: number;
+  sparkleCount: number;
+  goldDustSize: number; // Simulation texture side; particles = size^2
+  maxDpr: number; // Device pixel ratio cap
+  bloomLevels: number; // Mipmap blur levels
+  environment: boolean; // HDR environment map (ornament reflections)
+}
 
 export interface TreeSettings {
-  theme: ThemeMode; // New
-  treeColor: string;
-  lightColor: string;
+  theme: string; // Theme id, built-in or user-made
   bloomStrength: number;
   bloomThreshold: number;
   rotationSpeed: number;
   gestureSensitivity: number; // New: 0.5 to 3.0
+  smoothingCutoff: number; // Hand filter min cutoff (Hz) at 1x sensitivity
+  smoothingBeta: number; // Hand filter speed coefficient at 1x sensitivity
+  parallaxMode: ParallaxMode;
+  handOwnership: HandOwnership;
+  quality: QualityMode;
   particleBrightness: number; // New: 0.0 to 2.0
+  treeProfile: TreeProfileId;
+  treeHeight: number; // World units
+  treeRadius: number; // World units at the widest point of the profile
+  treeSpline: number[]; // 'spline' profile: radius fractions (0..1), bottom -> top
 }
 
 export interface PhotoData {
@@ -29,7 +97,34 @@ export enum GestureState {
   ROTATE = 'ROTATE', // Active Rotation
   VICTORY = 'VICTORY', // Peace Sign: Grab Photo
   OK_PINCH = 'OK_PINCH', // OK Gesture: Grab Photo (New)
-  DUAL_PINCH = 'DUAL_PINCH' // Legacy/Backup
+  THUMB_UP = 'THUMB_UP', // Thumb Up: Grab Photo
+  POINTING_UP = 'POINTING_UP', // Index Up: Grab Photo
+  DUAL_PINCH = 'DUAL_PINCH', // Two-hand Pinch: Zoom / Twist
+  GALLERY_TOGGLE = 'GALLERY_TOGGLE', // Trained Gesture: Toggle Gallery Mode
+  MORPH = 'MORPH' // Trained Gesture: Foliage Forms the Morph Target
+}
+
+// Motion gestures read from the palm trajectory rather than a single pose
+export enum MotionGesture {
+  SWIPE_LEFT = 'SWIPE_LEFT', // Previous Photo / Spin Gallery
+  SWIPE_RIGHT = 'SWIPE_RIGHT', // Next Photo / Spin Gallery
+  SWIPE_UP = 'SWIPE_UP', // Send Photo Back
+  STIR = 'STIR' // Circular Stir: Full Gallery Spin
+}
+
+export interface MotionEvent {
+  type: MotionGesture;
+  timestamp: number; // ms, performance.now() clock
+}
+
+// Scene actions a user-trained gesture can be bound to
+export type GestureAction = 'explode' | 'assemble' | 'summon' | 'toggleGallery' | 'morph';
+
+export interface CustomGesture {
+  id: string;
+  name: string;
+  action: GestureAction;
+  samples: number[][]; // Normalized landmark feature vectors
 }
 
 export interface GestureData {
@@ -42,8 +137,32 @@ export interface GestureData {
 export interface VisionData {
   isHandDetected: boolean;
   handPosition: Vector3; // World Space
+  handDepth: number; // -1.0 (Pulled Back) to 1.0 (Pushed Toward Screen)
+  handedness: Handedness | null; // The owner's hand, from the viewer's point of view
   gesture: GestureState;
+  gestureScore: number; // 0.0 to 1.0, MediaPipe's score for the owner's top category
   gestureFactor: number; // 0.0 (Fist) to 1.0 (Open)
+  landmarkVisibility: number[]; // 0.0 to 1.0 per owner landmark (0 when the model doesn't report it)
+}
+
+export type VisionStatus = 'idle' | 'loading' | 'ready' | 'error';
+export type VisionDelegate = 'GPU' | 'CPU';
+
+// Webcam lifecycle, shown in the vision panel
+export type CameraStatus = 'idle' | 'starting' | 'live' | 'denied' | 'missing' | 'in-use' | 'error';
+
+export interface CameraPreferences {
+  deviceId: string | null; // null = browser default (user-facing)
+  width: number;
+  height: number;
+}
+
+// Palm reach of the current user, in normalized camera image coordinates
+export interface HandCalibration {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
 }
 
 export interface HandLandmark {
@@ -51,3 +170,74 @@ export interface HandLandmark {
   y: number;
   z: number;
 }
+
+// The person's own left or right hand (not the side of the image it appears on)
+export type Handedness = 'Left' | 'Right';
+
+// One camera frame worth of hand data, as fed to the gesture pipeline
+export interface HandFrameHand {
+  landmarks: HandLandmark[]; // 21 normalized image-space points
+  categoryName?: string; // MediaPipe built-in gesture
+  categoryScore: number;
+  handedness?: Handedness; // Missing in recordings made before handedness was kept
+  handednessScore?: number; // 0.0 to 1.0
+  visibility?: number[]; // 0.0 to 1.0 per landmark
+}
+
+export interface HandFrame {
+  timestamp: number; // ms
+  hands: HandFrameHand[];
+}
+
+// A hand with an identity that survives across frames (one per person at the installation)
+export interface TrackedHand {
+  id: number; // Never reused within a session
+  slot: number; // 0..3, lowest free slot when the hand appeared; picks the wand / colour
+  isOwner: boolean; // Drives the gestures under the current ownership rule
+  screenPosition: Vector2; // Palm in NDC within the calibrated reach
+  landmarks: HandLandmark[]; // Smoothed, normalized image coordinates
+  handedness: Handedness | null;
+  gesture: GestureState; // This hand's own classification (undebounced), e.g. to bind left vs. right fist
+  gestureScore: number; // 0.0 to 1.0, MediaPipe category score
+  visibility: number[]; // 0.0 to 1.0 per landmark
+}
+
+export interface HandRecording {
+  version: 1;
+  recordedAt: string; // ISO date
+  frames: HandFrame[]; // Timestamps relative to recording start
+}
+
+// --- Input Intents: every device (hand, mouse, touch, keyboard, UI) maps onto these ---
+export type InputSource = 'hand' | 'gamepad' | 'mouse' | 'touch' | 'keyboard' | 'ui';
+
+export type InputIntentType =
+  | 'summon' // Bring a photo out of the tree
+  | 'dismiss' // Send it back
+  | 'next' // Next photo (or one step of the gallery ring)
+  | 'previous'
+  | 'spin' // Full turn of the gallery ring
+  | 'rotate' // Free rotation by `amount` radians
+  | 'toggleGallery'
+  | 'morph'; // Foliage leaves the tree, forms the morph target, then returns
+
+export interface InputIntent {
+  seq: number; // Increasing; readers remember the last one they handled
+  type: InputIntentType;
+  source: InputSource;
+  amount?: number; // Radians, for 'rotate'
+  timestamp: number; // performance.now()
+}
+
+// What the foliage re-forms into: a word or number, or an uploaded logo sampled by alpha
+export type MorphTarget =
+  | { kind: 'text', text: string }
+  | { kind: 'image', image: HTMLImageElement };
+
+export interface InputCursor {
+  source: InputSource;
+  slot: number; // Wand / attraction point index (0..3)
+  position: Vector2; // NDC
+  depth: number; // -1..1 push / pull, 0 for flat devices
+}
+
@@ -0,0 +1,89 @@
+import { CameraPreferences, CameraStatus } from '../types';
+
+const STORAGE_KEY = 'lumiere-noel.camera';
+
+// Hand landmarks don't need much resolution; larger sizes help when standing far back
+export const CAMERA_RESOLUTIONS = [
+  { width: 320, height: 240 },
+  { width: 640, height: 480 },
+  { width: 1280, height: 720 },
+];
+
+export const DEFAULT_CAMERA_PREFERENCES: CameraPreferences = { deviceId: null, width: 320, height: 240 };
+
+export const loadCameraPreferences = (): CameraPreferences => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_CAMERA_PREFERENCES, ...JSON.parse(raw) } : DEFAULT_CAMERA_PREFERENCES;
+  } catch (e) {
+    console.error("Failed to read camera preferences:", e);
+    return DEFAULT_CAMERA_PREFERENCES;
+  }
+};
+
+export const saveCameraPreferences = (preferences: CameraPreferences) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch (e) {
+    console.error("Failed to save camera preferences:", e);
+  }
+};
+
+// Labels are empty until the user has granted camera access once
+export const listVideoInputs = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'videoinput');
+};
+
+// getUserMedia DOMException names -> what the vision panel should say
+export const classifyCameraError = (e: unknown): CameraStatus => {
+  const name = e instanceof DOMException || e instanceof Error ? e.name : '';
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return 'denied';
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return 'missing';
+    case 'NotReadableError':
+    case 'AbortError':
+      return 'in-use';
+    default:
+      return 'error';
+  }
+};
+
+const requestStream = ({ deviceId, width, height }: CameraPreferences) => navigator.mediaDevices.getUserMedia({
+  video: {
+    width: { ideal: width },
+    height: { ideal: height },
+    ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: 'user' })
+  }
+});
+
+// Opens the preferred camera; a remembered device that is gone falls back to the default one
+export const openCamera = async (preferences: CameraPreferences): Promise<MediaStream> => {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new DOMException('Camera API unavailable', 'NotFoundError');
+  }
+  try {
+    return await requestStream(preferences);
+  } catch (e) {
+    if (!preferences.deviceId || classifyCameraError(e) !== 'missing') throw e;
+    console.warn("Preferred camera unavailable, using the default one:", e);
+    return requestStream({ ...preferences, deviceId: null });
+  }
+};
+
+export const stopStream = (stream: MediaStream | null) => {
+  stream?.getTracks().forEach(track => track.stop());
+};
+
+// Vision panel copy for each failure, instead of an endless "initializing"
+export const CAMERA_STATUS_MESSAGES: Partial<Record<CameraStatus, { title: string; hint: string }>> = {
+  denied: { title: 'CAMERA BLOCKED', hint: '请在浏览器设置中允许使用摄像头' },
+  missing: { title: 'NO CAMERA', hint: '未检测到摄像头，插入后自动连接' },
+  'in-use': { title: 'CAMERA BUSY', hint: '摄像头正被其他程序占用' },
+  error: { title: 'CAMERA ERROR', hint: '无法启动摄像头' },
+};
@@ -0,0 +1,106 @@
+import { CustomGesture, GestureAction, GestureState, HandLandmark } from '../types';
+import { GestureRule } from './gestureRegistry';
+
+const STORAGE_KEY = 'lumiere-noel.custom-gestures';
+
+export const CUSTOM_GESTURE_RULE_ID = 'custom-gestures';
+
+// Trained poses reuse the states the scene already reacts to
+export const ACTION_STATES: Record<GestureAction, GestureState> = {
+  explode: GestureState.OPEN_PALM,
+  assemble: GestureState.CLOSED_FIST,
+  summon: GestureState.VICTORY,
+  toggleGallery: GestureState.GALLERY_TOGGLE,
+  morph: GestureState.MORPH,
+};
+
+export const ACTION_LABELS: Record<GestureAction, string> = {
+  explode: '全景展开',
+  assemble: '聚合成树',
+  summon: '召唤照片',
+  toggleGallery: '艺术轮播',
+  morph: '粒子变幻',
+};
+
+// --- Features ---
+// Wrist-relative landmarks scaled by palm length, so the pose matches regardless of
+// where the hand is in frame or how far it is from the camera.
+export const extractFeatures = (landmarks: HandLandmark[]): number[] => {
+  const wrist = landmarks[0];
+  const middleMCP = landmarks[9];
+  const scale = Math.hypot(middleMCP.x - wrist.x, middleMCP.y - wrist.y, middleMCP.z - wrist.z) || 1;
+  const features: number[] = [];
+  for (const p of landmarks) {
+    features.push((p.x - wrist.x) / scale, (p.y - wrist.y) / scale, (p.z - wrist.z) / scale);
+  }
+  return features;
+};
+
+// RMS distance per landmark, in palm lengths
+const poseDistance = (a: number[], b: number[]) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const d = a[i] - b[i];
+    sum += d * d;
+  }
+  return Math.sqrt(sum / (a.length / 3));
+};
+
+// --- Nearest-Neighbour Rule ---
+const K = 3;
+const MATCH_THRESHOLD = 0.35; // Nearest sample must be within this many palm lengths
+
+export const createCustomGestureRule = (gestures: CustomGesture[], priority = 110): GestureRule => ({
+  id: CUSTOM_GESTURE_RULE_ID,
+  priority, // Above the built-ins: a trained pose is a deliberate override
+  match: ({ landmarks }) => {
+    const features = extractFeatures(landmarks);
+
+    const neighbours: { gesture: CustomGesture, distance: number }[] = [];
+    for (const gesture of gestures) {
+      for (const sample of gesture.samples) {
+        if (sample.length !== features.length) continue;
+        neighbours.push({ gesture, distance: poseDistance(features, sample) });
+      }
+    }
+    if (neighbours.length === 0) return null;
+
+    neighbours.sort((a, b) => a.distance - b.distance);
+    if (neighbours[0].distance > MATCH_THRESHOLD) return null;
+
+    // Distance-weighted vote among the K nearest samples that are still in range
+    const votes = new Map<CustomGesture, number>();
+    for (const { gesture, distance } of neighbours.slice(0, K)) {
+      if (distance > MATCH_THRESHOLD) break;
+      votes.set(gesture, (votes.get(gesture) ?? 0) + 1 / (distance + 1e-3));
+    }
+    let winner = neighbours[0].gesture;
+    votes.forEach((weight, gesture) => {
+      if (weight > (votes.get(winner) ?? 0)) winner = gesture;
+    });
+
+    return {
+      state: ACTION_STATES[winner.action],
+      confidence: 1 - neighbours[0].distance / MATCH_THRESHOLD
+    };
+  },
+});
+
+// --- Persistence ---
+export const loadCustomGestures = (): CustomGesture[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.error("Failed to read custom gestures:", e);
+    return [];
+  }
+};
+
+export const saveCustomGestures = (gestures: CustomGesture[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(gestures));
+  } catch (e) {
+    console.error("Failed to save custom gestures:", e);
+  }
+};
@@ -0,0 +1,68 @@
+import { GestureState, Handedness } from '../types';
+
+// --- Event Contract ---
+// Confirmed gestures as discrete events, so consumers don't each re-derive edges from
+// the store. IDLE never starts or ends; it's the absence of a gesture.
+export type GestureEventType = 'gesturestart' | 'gesturehold' | 'gestureend';
+
+export interface GestureEvent {
+  type: GestureEventType;
+  gesture: GestureState;
+  timestamp: number; // ms, performance.now() clock
+  duration: number; // ms since gesturestart (0 on start)
+  confidence: number; // 0.0 to 1.0, classifier confidence on this update
+  handedness: Handedness | null; // Hand showing the gesture (the owner), when known
+  previous?: GestureState; // gesturestart only: the gesture it directly replaced (IDLE if none)
+}
+
+export type GestureEventListener = (event: GestureEvent) => void;
+
+export interface GestureEventBus {
+  on: (type: GestureEventType, listener: GestureEventListener) => () => void; // Returns unsubscribe
+  update: (gesture: GestureState, confidence: number, timestamp: number, handedness?: Handedness | null) => void; // Feed every confirmed result
+  getActive: () => { gesture: GestureState, since: number } | null;
+}
+
+export const createGestureEventBus = (): GestureEventBus => {
+  const listeners: Record<GestureEventType, Set<GestureEventListener>> = {
+    gesturestart: new Set(),
+    gesturehold: new Set(),
+    gestureend: new Set(),
+  };
+  let active: { gesture: GestureState, since: number } | null = null;
+
+  const emit = (type: GestureEventType, gesture: GestureState, since: number, timestamp: number, confidence: number, handedness: Handedness | null, previous?: GestureState) => {
+    const event: GestureEvent = { type, gesture, timestamp, duration: timestamp - since, confidence, handedness, ...(previous ? { previous } : {}) };
+    listeners[type].forEach(listener => {
+      try {
+        listener(event);
+      } catch (e) {
+        console.error(`Gesture ${type} listener failed:`, e);
+      }
+    });
+  };
+
+  const on = (type: GestureEventType, listener: GestureEventListener) => {
+    listeners[type].add(listener);
+    return () => {
+      listeners[type].delete(listener);
+    };
+  };
+
+  // One hold per update while the gesture lasts; a change ends the old one before starting the new one
+  const update = (gesture: GestureState, confidence: number, timestamp: number, handedness: Handedness | null = null) => {
+    if (active && active.gesture === gesture) {
+      emit('gesturehold', gesture, active.since, timestamp, confidence, handedness);
+      return;
+    }
+    const previous = active?.gesture ?? GestureState.IDLE;
+    if (active) emit('gestureend', active.gesture, active.since, timestamp, confidence, handedness);
+    active = gesture === GestureState.IDLE ? null : { gesture, since: timestamp };
+    if (active) emit('gesturestart', gesture, timestamp, timestamp, confidence, handedness, previous);
+  };
+
+  return { on, update, getActive: () => active };
+};
+
+// Shared by the vision panel (which feeds it) and every consumer
+export const gestureEvents = createGestureEventBus();
@@ -0,0 +1,150 @@
+import { GestureState, HandLandmark } from '../types';
+
+// --- Rule Contract ---
+// A rule looks at one hand (landmarks + MediaPipe's top category) and either
+// claims the frame with a GestureState or passes (returns null).
+export interface GestureRuleInput {
+  landmarks: HandLandmark[];
+  categoryName?: string; // MediaPipe built-in category, e.g. 'Victory'
+  categoryScore: number; // 0.0 to 1.0, 0 when MediaPipe has no category
+}
+
+export interface GestureMatch {
+  state: GestureState;
+  confidence: number; // 0.0 to 1.0
+}
+
+export interface GestureRule {
+  id: string;
+  priority: number; // Higher wins when several rules match
+  match: (input: GestureRuleInput) => GestureMatch | null;
+}
+
+export interface GestureClassification extends GestureMatch {
+  ruleId: string;
+  priority: number;
+}
+
+export interface GestureRegistry {
+  add: (rule: GestureRule) => void; // Replaces any rule with the same id
+  remove: (id: string) => boolean;
+  setPriority: (id: string, priority: number) => void;
+  getRules: () => readonly GestureRule[];
+  classify: (input: GestureRuleInput) => GestureClassification | null;
+}
+
+// Gestures that summon a photo out of the tree by default
+export const SUMMON_GESTURES: ReadonlySet<GestureState> = new Set([
+  GestureState.VICTORY,
+  GestureState.OK_PINCH,
+  GestureState.THUMB_UP,
+  GestureState.POINTING_UP,
+]);
+
+// --- Geometric Helpers ---
+const getDistance = (p1: HandLandmark, p2: HandLandmark) => {
+  return Math.sqrt(Math.pow(p1.x - p2.x, 2) + Math.pow(p1.y - p2.y, 2));
+};
+
+// Thumb tip touching index tip, relative to hand size. Used for the two-hand zoom.
+export const isPinching = (landmarks: HandLandmark[], threshold = 0.5) => {
+  const handScale = getDistance(landmarks[0], landmarks[5]);
+  return handScale > 0 && getDistance(landmarks[4], landmarks[8]) < handScale * threshold;
+};
+
+// --- Rule Factories ---
+export const createCategoryRule = (
+  id: string,
+  categoryName: string,
+  state: GestureState,
+  priority: number
+): GestureRule => ({
+  id,
+  priority,
+  match: (input) => input.categoryName === categoryName
+    ? { state, confidence: input.categoryScore }
+    : null,
+});
+
+// OK sign: thumb tip pinched onto index tip while the other fingers stay open.
+export const okPinchRule: GestureRule = {
+  id: 'ok-pinch',
+  priority: 100,
+  match: ({ landmarks }) => {
+    const wrist = landmarks[0];
+    const thumbTip = landmarks[4];
+    const indexTip = landmarks[8];
+    const middleTip = landmarks[12];
+    const indexMCP = landmarks[5];
+
+    // Scale reference: Wrist to Index Knuckle
+    const handScale = getDistance(wrist, indexMCP);
+    if (handScale === 0) return null;
+
+    // 1. PINCH CHECK: Thumb tip close to Index tip
+    const pinchLimit = handScale * 0.5; // Strict threshold
+    const pinchDist = getDistance(thumbTip, indexTip);
+
+    // 2. FIST GUARD: Middle Finger Tip must be AWAY from wrist
+    // If middle finger is close to wrist, it's likely a fist, not an OK sign.
+    const middleToWrist = getDistance(middleTip, wrist);
+    const isNotFist = middleToWrist > (handScale * 0.9);
+
+    if (pinchDist >= pinchLimit || !isNotFist) return null;
+    return { state: GestureState.OK_PINCH, confidence: 1 - pinchDist / pinchLimit };
+  },
+};
+
+export const defaultGestureRules: GestureRule[] = [
+  okPinchRule,
+  createCategoryRule('victory', 'Victory', GestureState.VICTORY, 50),
+  createCategoryRule('thumb-up', 'Thumb_Up', GestureState.THUMB_UP, 50),
+  createCategoryRule('pointing-up', 'Pointing_Up', GestureState.POINTING_UP, 50),
+  createCategoryRule('open-palm', 'Open_Palm', GestureState.OPEN_PALM, 40),
+  createCategoryRule('closed-fist', 'Closed_Fist', GestureState.CLOSED_FIST, 40),
+];
+
+// --- Registry ---
+export const createGestureRegistry = (initialRules: GestureRule[] = []): GestureRegistry => {
+  let rules: GestureRule[] = [];
+
+  // Keep rules sorted once on mutation so classify() stays cheap per frame
+  const sortRules = () => {
+    rules = [...rules].sort((a, b) => b.priority - a.priority);
+  };
+
+  const registry: GestureRegistry = {
+    add: (rule) => {
+      rules = rules.filter(r => r.id !== rule.id).concat(rule);
+      sortRules();
+    },
+    remove: (id) => {
+      const before = rules.length;
+      rules = rules.filter(r => r.id !== id);
+      return rules.length !== before;
+    },
+    setPriority: (id, priority) => {
+      rules = rules.map(r => r.id === id ? { ...r, priority } : r);
+      sortRules();
+    },
+    getRules: () => rules,
+    classify: (input) => {
+      let best: GestureClassification | null = null;
+      for (const rule of rules) {
+        // Rules are sorted, so once a lower tier is reached the winner is settled
+        if (best && rule.priority < best.priority) break;
+        const result = rule.match(input);
+        if (result && (!best || result.confidence > best.confidence)) {
+          best = { ...result, ruleId: rule.id, priority: rule.priority };
+        }
+      }
+      return best;
+    },
+  };
+
+  initialRules.forEach(registry.add);
+  return registry;
+};
+
+// Shared registry used by useHandTracking unless another one is passed in.
+export const gestureRegistry = createGestureRegistry(defaultGestureRules);
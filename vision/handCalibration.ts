@@ -0,0 +1,95 @@
+import { HandCalibration } from '../types';
+
+const STORAGE_KEY = 'lumiere-noel.hand-calibration';
+
+// Visible height at Z=0 for the default camera (Z=24, FOV=45) is approx 20 units
+export const VISIBLE_HEIGHT = 20;
+
+// Matches the original fixed mapping: palm x in [1/6, 5/6] and y in [1/12, 11/12]
+// of the camera image spanned the whole screen.
+export const DEFAULT_CALIBRATION: HandCalibration = {
+  minX: 1 / 6,
+  maxX: 5 / 6,
+  minY: 1 / 12,
+  maxY: 11 / 12,
+};
+
+// Smallest reach we accept from the wizard, as a fraction of the camera image
+const MIN_SPAN = 0.15;
+
+// Anything narrower (or NaN) would blow up the mapping's division
+const hasUsableSpan = ({ minX, maxX, minY, maxY }: HandCalibration) =>
+  maxX - minX >= MIN_SPAN && maxY - minY >= MIN_SPAN;
+
+export interface HandMapping {
+  toScreenX: (x: number) => number; // Image x (0..1) -> NDC (-1..1, beyond when out of reach)
+  toScreenY: (y: number) => number;
+  toWorldX: (x: number) => number; // Image x (0..1) -> world units at Z=0
+  toWorldY: (y: number) => number;
+  visibleWidth: number;
+  visibleHeight: number;
+}
+
+export const createHandMapping = (calibration: HandCalibration, aspect: number): HandMapping => {
+  const visibleHeight = VISIBLE_HEIGHT;
+  const visibleWidth = VISIBLE_HEIGHT * aspect;
+  const { minX, maxX, minY, maxY } = calibration;
+
+  const toScreenX = (x: number) => ((x - minX) / (maxX - minX)) * 2 - 1;
+  const toScreenY = (y: number) => -(((y - minY) / (maxY - minY)) * 2 - 1);
+
+  return {
+    toScreenX,
+    toScreenY,
+    toWorldX: (x) => toScreenX(x) * visibleWidth / 2,
+    toWorldY: (y) => toScreenY(y) * visibleHeight / 2,
+    visibleWidth,
+    visibleHeight,
+  };
+};
+
+export const getViewportAspect = () => window.innerWidth / window.innerHeight;
+
+// Bounding box of the palm positions the user reached during the wizard
+export const calibrationFromSamples = (points: { x: number, y: number }[]): HandCalibration => {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const calibration = {
+    minX: Math.min(...xs),
+    maxX: Math.max(...xs),
+    minY: Math.min(...ys),
+    maxY: Math.max(...ys),
+  };
+  if (!hasUsableSpan(calibration)) {
+    throw new Error("伸展范围太小，请把手掌尽量伸向每个角落");
+  }
+  return calibration;
+};
+
+// --- Persistence ---
+// A saved calibration the wizard could not have produced falls back to the default reach
+export const loadCalibration = (): HandCalibration => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_CALIBRATION;
+    const saved = JSON.parse(raw);
+    const calibration: HandCalibration = { minX: saved?.minX, maxX: saved?.maxX, minY: saved?.minY, maxY: saved?.maxY };
+    if (!Object.values(calibration).every(Number.isFinite) || !hasUsableSpan(calibration)) {
+      console.warn("Ignoring invalid saved hand calibration:", saved);
+      return DEFAULT_CALIBRATION;
+    }
+    return calibration;
+  } catch (e) {
+    console.error("Failed to read hand calibration:", e);
+    return DEFAULT_CALIBRATION;
+  }
+};
+
+export const saveCalibration = (calibration: HandCalibration | null) => {
+  try {
+    if (calibration) localStorage.setItem(STORAGE_KEY, JSON.stringify(calibration));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch (e) {
+    console.error("Failed to save hand calibration:", e);
+  }
+};
@@ -0,0 +1,22 @@
+import type { GestureRecognizerResult } from '@mediapipe/tasks-vision';
+import type { HandFrame, Handedness } from '../types';
+
+// Kept free of three.js and the tracking pipeline: the recognition worker bundles this file.
+
+// MediaPipe labels handedness as if the image were mirrored (selfie view). We feed it the
+// raw camera image, so its 'Left' is the person's right hand.
+const toHandedness = (label?: string): Handedness | undefined =>
+  label === 'Left' ? 'Right' : label === 'Right' ? 'Left' : undefined;
+
+// Flattens MediaPipe's per-hand arrays into the recordable HandFrame shape
+export const toHandFrame = (results: GestureRecognizerResult, timestamp: number): HandFrame => ({
+  timestamp,
+  hands: results.landmarks.map((landmarks, i) => ({
+    landmarks: landmarks.map(({ x, y, z }) => ({ x, y, z })),
+    categoryName: results.gestures[i]?.[0]?.categoryName,
+    categoryScore: results.gestures[i]?.[0]?.score ?? 0,
+    handedness: toHandedness(results.handedness[i]?.[0]?.categoryName),
+    handednessScore: results.handedness[i]?.[0]?.score ?? 0,
+    visibility: landmarks.map(({ visibility }) => visibility ?? 0)
+  }))
+});
@@ -0,0 +1,360 @@
+import * as THREE from 'three';
+import { GestureState, HandCalibration, HandFrame, Handedness, HandLandmark, HandOwnership, MotionGesture, TrackedHand } from '../types';
+import { GestureRegistry, isPinching, SUMMON_GESTURES } from './gestureRegistry';
+import { createHandMapping } from './handCalibration';
+import { createLandmarkFilter, OneEuroParams } from './oneEuroFilter';
+import { createMotionDetector } from './motionGestures';
+import { createHandIdentityTracker, IdentifiedHand, MAX_TRACKED_HANDS } from './handIdentity';
+
+export interface HandTrackingResult {
+  isDetected: boolean;
+  worldPosition: THREE.Vector3;
+  screenPosition: THREE.Vector2; // NDC within the calibrated reach (-1..1)
+  depth: number; // -1 (pulled back) to 1 (pushed toward the screen), 0 = where the hand entered
+  handedness: Handedness | null; // Owner's hand
+  gesture: GestureState;
+  confidence: number; // 0.0 to 1.0, classifier confidence in the confirmed gesture
+  gestureScore: number; // 0.0 to 1.0, MediaPipe category score of the owner this frame
+  gestureFactor: number; // 0 (Fist) to 1 (Open)
+  landmarkVisibility: number[]; // Owner's per-landmark visibility, empty when no hand
+  pinchDistance: number; // World units between pinching hands (DUAL_PINCH only)
+  pinchAngle: number; // Radians of the line between pinching hands (DUAL_PINCH only)
+  motion: MotionGesture | null; // Swipe / stir completed on this frame
+  hands: TrackedHand[]; // Every tracked hand with its identity; the owner drives the fields above
+  rawGesture: GestureState; // Classification of this frame, before debounce
+  stability: number; // Consecutive frames the raw gesture has held
+  rejected: boolean; // Owner's match was below minConfidence and skipped the debounce
+}
+
+export interface HandFrameProcessorOptions {
+  registry: GestureRegistry;
+  calibration: HandCalibration;
+  aspect: number; // Viewport width / height
+  smoothing: OneEuroParams;
+  ownership?: HandOwnership;
+  maxHands?: number;
+  minConfidence?: number; // See DEFAULT_MIN_CONFIDENCE
+}
+
+export interface HandFrameProcessor {
+  process: (frame: HandFrame) => HandTrackingResult;
+  reset: () => void;
+  setCalibration: (calibration: HandCalibration) => void;
+  setAspect: (aspect: number) => void;
+  setSmoothing: (smoothing: OneEuroParams) => void;
+  setOwnership: (ownership: HandOwnership) => void;
+  setMinConfidence: (minConfidence: number) => void;
+}
+
+// Raw gesture must hold for more than this many frames before it is confirmed
+export const STABILITY_THRESHOLD = 4;
+
+// Matches below this confidence neither count toward nor reset the debounce
+export const DEFAULT_MIN_CONFIDENCE = 0.3;
+
+const DEPTH_WORLD_RANGE = 4; // World Z offset at full push / pull
+const DEPTH_BASELINE_RATE = 0.2; // 1/s, how fast "neutral" follows a person who steps closer
+
+// Palm span in 3D (z keeps it stable when the hand tilts): wrist -> middle knuckle,
+// index knuckle -> pinky knuckle
+const getPalmScale = (landmarks: HandLandmark[]) => {
+  const span = (a: HandLandmark, b: HandLandmark) => Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+  return (span(landmarks[0], landmarks[9]) + span(landmarks[5], landmarks[17])) / 2;
+};
+
+const LARGEST_SWITCH_MARGIN = 1.15; // 'largest' hands over only to a clearly bigger hand
+
+// Picks the hand whose pose drives the scene. Ties go to whoever arrived first.
+const pickOwner = (hands: IdentifiedHand[], states: GestureState[], ownership: HandOwnership, currentOwnerId: number | null) => {
+  const byArrival = hands.map((_, i) => i).sort((a, b) => hands[a].firstSeen - hands[b].firstSeen || hands[a].id - hands[b].id);
+
+  if (ownership === 'largest') {
+    // Apparent size ~ closeness to the camera; hysteresis stops flip-flopping between similar hands
+    const scales = hands.map(hand => getPalmScale(hand.landmarks));
+    const largest = byArrival.reduce((best, i) => scales[i] > scales[best] ? i : best, byArrival[0]);
+    const current = hands.findIndex(hand => hand.id === currentOwnerId);
+    const index = current >= 0 && scales[largest] < scales[current] * LARGEST_SWITCH_MARGIN ? current : largest;
+    return { index, state: states[index] };
+  }
+
+  if (ownership === 'majority') {
+    // Most common pose wins; idle hands don't vote
+    const votes = new Map<GestureState, number>();
+    states.forEach(state => {
+      if (state !== GestureState.IDLE) votes.set(state, (votes.get(state) ?? 0) + 1);
+    });
+    let index = byArrival[0];
+    let bestVotes = 0;
+    for (const i of byArrival) {
+      const count = votes.get(states[i]) ?? 0;
+      if (count > bestVotes) {
+        bestVotes = count;
+        index = i;
+      }
+    }
+    return { index, state: states[index] };
+  }
+
+  return { index: byArrival[0], state: states[byArrival[0]] };
+};
+
+// Smoothing + debounce state machine for the hand stream. Pure with respect to its
+// input frames, so live camera frames and replayed recordings behave identically.
+export const createHandFrameProcessor = ({ registry, calibration, aspect, smoothing, ownership = 'first-come', maxHands = MAX_TRACKED_HANDS, minConfidence = DEFAULT_MIN_CONFIDENCE }: HandFrameProcessorOptions): HandFrameProcessor => {
+  let currentCalibration = calibration;
+  let currentAspect = aspect;
+  let mapping = createHandMapping(currentCalibration, currentAspect);
+
+  // Smoothing State: One Euro on every landmark, time-based damping for the factor
+  let currentSmoothing = smoothing;
+  const handFilters = new Map<number, ReturnType<typeof createLandmarkFilter>>(); // Keyed by hand id
+  const smoothScreen = new THREE.Vector2(0, 0);
+  let smoothFactor = 0;
+  let lastTimestamp: number | null = null;
+
+  // Identity across frames, and which hand currently drives the gestures
+  const identities = createHandIdentityTracker(maxHands);
+  let currentOwnership = ownership;
+  let ownerId: number | null = null;
+
+  // Palm trajectory -> swipes / stir
+  const motionDetector = createMotionDetector();
+
+  // Depth: apparent palm size vs. the size when the hand entered (baseline slowly follows)
+  let depthBaseline: number | null = null;
+  let depth = 0;
+
+  // Debounce State
+  let currentMinConfidence = minConfidence;
+  let lastRawState = GestureState.IDLE;
+  let frameStabilityCounter = 0;
+  let confirmedState = GestureState.IDLE;
+  let confirmedConfidence = 0; // Refreshed on frames where the raw state agrees
+
+  // Last measured two-hand pinch, held while the confirmed state lags behind the raw one
+  const lastPinch = { distance: 0, angle: 0 };
+
+  const toWorldPosition = () => new THREE.Vector3(
+    smoothScreen.x * mapping.visibleWidth / 2,
+    smoothScreen.y * mapping.visibleHeight / 2,
+    depth * DEPTH_WORLD_RANGE
+  );
+
+  const updateDepth = (landmarks: HandLandmark[], dt: number) => {
+    const scale = getPalmScale(landmarks);
+    if (scale <= 0) return;
+    if (depthBaseline === null) depthBaseline = scale;
+    // Doubling the apparent size (hand twice as close) reads as fully pushed
+    depth = THREE.MathUtils.clamp(Math.log2(scale / depthBaseline), -1, 1);
+    depthBaseline = THREE.MathUtils.damp(depthBaseline, scale, DEPTH_BASELINE_RATE, dt);
+  };
+
+  const process = (frame: HandFrame): HandTrackingResult => {
+    // Seconds since the previous frame, so smoothing is independent of camera / render FPS
+    const dt = lastTimestamp === null ? 1 / 60 : THREE.MathUtils.clamp((frame.timestamp - lastTimestamp) / 1000, 0, 0.1);
+    lastTimestamp = frame.timestamp;
+
+    // 0. Identify hands, then filter each with its own state so reordering can't mix them up
+    const identified = identities.assign(frame);
+    const liveIds = new Set(identified.map(hand => hand.id));
+    for (const id of handFilters.keys()) {
+      if (!liveIds.has(id)) handFilters.delete(id);
+    }
+    const hands = identified.map(hand => {
+      let filter = handFilters.get(hand.id);
+      if (!filter) {
+        filter = createLandmarkFilter(() => currentSmoothing);
+        handFilters.set(hand.id, filter);
+      }
+      return { ...hand, landmarks: filter.filter(hand.landmarks, frame.timestamp) };
+    });
+
+    if (hands.length > 0) {
+      // 1. Classify every hand (Before Debounce), then pick the one that owns the gestures
+      const classifications = hands.map(({ landmarks, categoryName, categoryScore }) =>
+        registry.classify({ landmarks, categoryName, categoryScore })
+      );
+      const states = classifications.map(match => match?.state ?? GestureState.IDLE);
+      const { index: ownerIndex, state: ownerState } = pickOwner(hands, states, currentOwnership, ownerId);
+      const owner = hands[ownerIndex];
+      if (owner.id !== ownerId) {
+        // Someone else took over: their trajectory and depth reference start fresh
+        ownerId = owner.id;
+        motionDetector.reset();
+        depthBaseline = null;
+      }
+      const { landmarks } = owner;
+
+      // 2. Position Mapping (calibrated reach -> screen)
+      const palm = landmarks[9]; 
+      smoothScreen.set(mapping.toScreenX(palm.x), mapping.toScreenY(palm.y));
+      const motion = motionDetector.push(smoothScreen.x, smoothScreen.y, frame.timestamp);
+      updateDepth(landmarks, dt);
+
+      let rawState = ownerState;
+      let rawConfidence = classifications[ownerIndex]?.confidence ?? 0;
+
+      // Owner pinching with the nearest other pinching hand overrides the single-hand rules (Zoom / Twist)
+      const partner = isPinching(landmarks)
+        ? hands
+            .filter(hand => hand !== owner && isPinching(hand.landmarks))
+            .sort((a, b) => Math.hypot(a.landmarks[9].x - palm.x, a.landmarks[9].y - palm.y) - Math.hypot(b.landmarks[9].x - palm.x, b.landmarks[9].y - palm.y))[0]
+        : undefined;
+      if (partner) {
+        rawState = GestureState.DUAL_PINCH;
+        rawConfidence = 1; // Geometric: both hands pinching
+        const a = landmarks;
+        const b = partner.landmarks;
+        const dx = mapping.toWorldX((b[4].x + b[8].x) / 2) - mapping.toWorldX((a[4].x + a[8].x) / 2);
+        const dy = mapping.toWorldY((b[4].y + b[8].y) / 2) - mapping.toWorldY((a[4].y + a[8].y) / 2);
+        lastPinch.distance = Math.sqrt(dx * dx + dy * dy);
+        // Hand order is arbitrary, so keep the line pointing left-to-right
+        lastPinch.angle = dx < 0 ? Math.atan2(-dy, -dx) : Math.atan2(dy, dx);
+      }
+
+      // 3. Debouncing Logic (Stability Check); a doubtful match is dropped rather than
+      // read as IDLE, so one blurry frame can't break a held gesture either
+      const rejected = rawState !== GestureState.IDLE && rawConfidence < currentMinConfidence;
+      if (rejected) {
+        // Counter and raw state stay as they were
+      } else if (rawState === lastRawState) {
+        frameStabilityCounter++;
+      } else {
+        lastRawState = rawState;
+        frameStabilityCounter = 0;
+      }
+
+      // Require consistent frames to change state; a rejected frame confirms nothing
+      if (!rejected) {
+        if (frameStabilityCounter > STABILITY_THRESHOLD) confirmedState = rawState;
+        if (rawState === confirmedState) confirmedConfidence = rawConfidence;
+      }
+
+      const finalState = confirmedState;
+      const isDualPinch = finalState === GestureState.DUAL_PINCH;
+
+      // 4. Calculate Factor based on CONFIRMED state
+      let targetFactor = smoothFactor;
+
+      if (finalState === GestureState.CLOSED_FIST) {
+        targetFactor = 0.0; // Shrink
+      } else if (finalState === GestureState.OPEN_PALM) {
+        targetFactor = 1.0; // Explode
+      } else if (SUMMON_GESTURES.has(finalState)) {
+        // For Victory/OK, we want a neutral or slightly expanded state, not full explode
+        targetFactor = THREE.MathUtils.damp(targetFactor, 0.5, 6.3, dt);
+      } else if (isDualPinch) {
+        // Hold the current shape while zooming / twisting
+      } else {
+        // IDLE drift
+        targetFactor = THREE.MathUtils.damp(targetFactor, 0.2, 3.1, dt);
+      }
+
+      // Rates match the old per-frame lerps (0.1 / 0.05) at 60 FPS
+      smoothFactor = THREE.MathUtils.damp(smoothFactor, targetFactor, 6.3, dt);
+
+      return {
+        isDetected: true,
+        worldPosition: toWorldPosition(),
+        screenPosition: smoothScreen.clone(),
+        depth,
+        handedness: owner.handedness ?? null,
+        gesture: finalState,
+        confidence: confirmedConfidence,
+        gestureScore: owner.categoryScore,
+        gestureFactor: smoothFactor,
+        landmarkVisibility: owner.visibility ?? [],
+        pinchDistance: isDualPinch ? lastPinch.distance : 0,
+        pinchAngle: isDualPinch ? lastPinch.angle : 0,
+        // Two-hand pinching moves the palm too; don't read that as a swipe
+        motion: isDualPinch ? null : motion,
+        hands: hands.map((hand, i) => ({
+          id: hand.id,
+          slot: hand.slot,
+          isOwner: hand.id === owner.id,
+          screenPosition: new THREE.Vector2(mapping.toScreenX(hand.landmarks[9].x), mapping.toScreenY(hand.landmarks[9].y)),
+          landmarks: hand.landmarks,
+          handedness: hand.handedness ?? null,
+          gesture: states[i],
+          gestureScore: hand.categoryScore,
+          visibility: hand.visibility ?? []
+        })),
+        rawGesture: rawState,
+        stability: frameStabilityCounter,
+        rejected
+      };
+    } else {
+        // Decay if lost
+        smoothFactor = THREE.MathUtils.damp(smoothFactor, 0, 6.3, dt);
+        // Reset debounce
+        frameStabilityCounter = 0;
+        motionDetector.reset();
+        // Next appearance sets a new depth reference
+        depthBaseline = null;
+        depth = 0;
+        ownerId = null;
+        
+        return {
+            isDetected: false,
+            worldPosition: toWorldPosition(),
+            screenPosition: smoothScreen.clone(),
+            depth,
+            handedness: null,
+            gesture: GestureState.IDLE,
+            confidence: 0,
+            gestureScore: 0,
+            gestureFactor: smoothFactor,
+            landmarkVisibility: [],
+            pinchDistance: 0,
+            pinchAngle: 0,
+            motion: null,
+            hands: [],
+            rawGesture: GestureState.IDLE,
+            stability: 0,
+            rejected: false
+        };
+    }
+  };
+
+  const reset = () => {
+    handFilters.clear();
+    identities.reset();
+    ownerId = null;
+    motionDetector.reset();
+    depthBaseline = null;
+    depth = 0;
+    smoothScreen.set(0, 0);
+    smoothFactor = 0;
+    lastTimestamp = null;
+    lastRawState = GestureState.IDLE;
+    frameStabilityCounter = 0;
+    confirmedState = GestureState.IDLE;
+    confirmedConfidence = 0;
+    lastPinch.distance = 0;
+    lastPinch.angle = 0;
+  };
+
+  const setCalibration = (next: HandCalibration) => {
+    currentCalibration = next;
+    mapping = createHandMapping(currentCalibration, currentAspect);
+  };
+
+  const setAspect = (next: number) => {
+    currentAspect = next;
+    mapping = createHandMapping(currentCalibration, currentAspect);
+  };
+
+  const setSmoothing = (next: OneEuroParams) => {
+    currentSmoothing = next;
+  };
+
+  const setOwnership = (next: HandOwnership) => {
+    currentOwnership = next;
+  };
+
+  const setMinConfidence = (next: number) => {
+    currentMinConfidence = next;
+  };
+
+  return { process, reset, setCalibration, setAspect, setSmoothing, setOwnership, setMinConfidence };
+};
@@ -0,0 +1,78 @@
+import { HandFrame, HandFrameHand } from '../types';
+
+export const MAX_TRACKED_HANDS = 4;
+
+// Wand / skeleton colour per slot (slot 0 follows the theme in the scene)
+export const HAND_SLOT_COLORS = ['#FFD700', '#FF69B4', '#7CFC00', '#BA55D3'];
+
+const MATCH_DISTANCE = 0.2; // Max palm travel between frames, normalized image units
+const LOST_GRACE_MS = 300; // Keep an identity through brief detection dropouts
+
+export interface IdentifiedHand extends HandFrameHand {
+  id: number;
+  slot: number;
+  firstSeen: number; // ms, frame timestamp when the identity was created
+}
+
+interface Track {
+  id: number;
+  slot: number;
+  firstSeen: number;
+  lastSeen: number;
+  x: number;
+  y: number;
+}
+
+// MediaPipe returns hands in arbitrary order; match them to last frame's palms so
+// each person keeps their id (and wand) while they stay in view.
+export const createHandIdentityTracker = (maxHands = MAX_TRACKED_HANDS) => {
+  let tracks: Track[] = [];
+  let nextId = 1;
+
+  const assign = (frame: HandFrame): IdentifiedHand[] => {
+    const detections = frame.hands.slice(0, maxHands);
+    const palms = detections.map(hand => hand.landmarks[9]);
+
+    // Greedy nearest-pair matching is plenty for a handful of hands
+    const pairs: { track: Track; detection: number; distance: number }[] = [];
+    tracks.forEach(track => palms.forEach((palm, detection) => {
+      const distance = Math.hypot(palm.x - track.x, palm.y - track.y);
+      if (distance < MATCH_DISTANCE) pairs.push({ track, detection, distance });
+    }));
+    pairs.sort((a, b) => a.distance - b.distance);
+
+    const assigned = new Array<Track | undefined>(detections.length);
+    const matchedTracks = new Set<Track>();
+    for (const { track, detection } of pairs) {
+      if (assigned[detection] || matchedTracks.has(track)) continue;
+      assigned[detection] = track;
+      matchedTracks.add(track);
+    }
+
+    // Forget hands that have been gone for a while, freeing their slot
+    tracks = tracks.filter(track => matchedTracks.has(track) || frame.timestamp - track.lastSeen <= LOST_GRACE_MS);
+
+    const result: IdentifiedHand[] = [];
+    detections.forEach((hand, i) => {
+      let track = assigned[i];
+      if (!track) {
+        const usedSlots = new Set(tracks.map(t => t.slot));
+        const slot = Array.from({ length: maxHands }, (_, s) => s).find(s => !usedSlots.has(s));
+        if (slot === undefined) return;
+        track = { id: nextId++, slot, firstSeen: frame.timestamp, lastSeen: frame.timestamp, x: 0, y: 0 };
+        tracks.push(track);
+      }
+      track.lastSeen = frame.timestamp;
+      track.x = palms[i].x;
+      track.y = palms[i].y;
+      result.push({ ...hand, id: track.id, slot: track.slot, firstSeen: track.firstSeen });
+    });
+    return result;
+  };
+
+  const reset = () => {
+    tracks = [];
+  };
+
+  return { assign, reset };
+};
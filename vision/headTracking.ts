@@ -0,0 +1,50 @@
+import * as THREE from 'three';
+import { HandLandmark } from '../types';
+import { createOneEuroFilter, OneEuroParams } from './oneEuroFilter';
+
+// Head movement is slower and larger than hand jitter: favour smoothness
+const HEAD_SMOOTHING: OneEuroParams = { minCutoff: 0.5, beta: 2.0, dCutoff: 1.0 };
+
+// Viewers rarely leave the middle of the webcam frame; this span covers the full parallax
+const HEAD_RANGE = 0.6;
+
+// Outer eye corners (FaceLandmarker mesh indices)
+const LEFT_EYE_OUTER = 33;
+const RIGHT_EYE_OUTER = 263;
+
+export interface HeadTrackingResult {
+  isDetected: boolean;
+  position: THREE.Vector2; // Mirrored NDC (-1..1): +x = viewer moved to their right, +y = up
+}
+
+// Face landmarks -> smoothed head position, shared by live camera frames only
+export const createHeadTracker = () => {
+  const filterX = createOneEuroFilter(() => HEAD_SMOOTHING);
+  const filterY = createOneEuroFilter(() => HEAD_SMOOTHING);
+  const position = new THREE.Vector2(0, 0);
+
+  const reset = () => {
+    filterX.reset();
+    filterY.reset();
+    position.set(0, 0);
+  };
+
+  const process = (landmarks: HandLandmark[] | undefined, timestamp: number): HeadTrackingResult => {
+    if (!landmarks || landmarks.length <= RIGHT_EYE_OUTER) {
+      reset();
+      return { isDetected: false, position: position.clone() };
+    }
+
+    const midX = (landmarks[LEFT_EYE_OUTER].x + landmarks[RIGHT_EYE_OUTER].x) / 2;
+    const midY = (landmarks[LEFT_EYE_OUTER].y + landmarks[RIGHT_EYE_OUTER].y) / 2;
+
+    // Camera image is unmirrored: the viewer's right is the image's left
+    position.set(
+      THREE.MathUtils.clamp((0.5 - filterX.filter(midX, timestamp)) / (HEAD_RANGE / 2), -1, 1),
+      THREE.MathUtils.clamp((0.5 - filterY.filter(midY, timestamp)) / (HEAD_RANGE / 2), -1, 1)
+    );
+    return { isDetected: true, position: position.clone() };
+  };
+
+  return { process, reset };
+};
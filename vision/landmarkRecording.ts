@@ -0,0 +1,100 @@
+import { HandFrame, HandRecording } from '../types';
+
+// 4 decimals is well below MediaPipe's jitter and keeps a minute of footage small
+const round = (v: number) => Math.round(v * 10000) / 10000;
+
+// --- Recorder ---
+export interface LandmarkRecorder {
+  push: (frame: HandFrame) => void;
+  stop: () => HandRecording;
+  frameCount: () => number;
+}
+
+export const createLandmarkRecorder = (): LandmarkRecorder => {
+  const frames: HandFrame[] = [];
+  const recordedAt = new Date().toISOString();
+  let startTime: number | null = null;
+
+  return {
+    push: (frame) => {
+      if (startTime === null) startTime = frame.timestamp;
+      frames.push({
+        timestamp: round(frame.timestamp - startTime),
+        hands: frame.hands.map(hand => ({
+          landmarks: hand.landmarks.map(({ x, y, z }) => ({ x: round(x), y: round(y), z: round(z) })),
+          categoryName: hand.categoryName,
+          categoryScore: round(hand.categoryScore),
+          handedness: hand.handedness,
+          handednessScore: hand.handednessScore === undefined ? undefined : round(hand.handednessScore),
+          visibility: hand.visibility?.map(round)
+        }))
+      });
+    },
+    stop: () => ({ version: 1, recordedAt, frames: [...frames] }),
+    frameCount: () => frames.length,
+  };
+};
+
+export const downloadRecording = (recording: HandRecording) => {
+  const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `hand-recording-${recording.recordedAt.replace(/[:.]/g, '-')}.json`;
+  link.click();
+  // Revoking in the same task can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const parseRecording = (json: string): HandRecording => {
+  const data = JSON.parse(json);
+  if (data?.version !== 1 || !Array.isArray(data.frames)) {
+    throw new Error("Not a hand recording (expected version 1 with a frames array)");
+  }
+  return data as HandRecording;
+};
+
+// --- Replay ---
+export interface ReplayPlayer {
+  // Every frame due since the previous call, in recorded order. Never skips frames,
+  // so the debounce counters see exactly the sequence that was recorded.
+  advance: (now: number) => { frames: HandFrame[], restarted: boolean };
+  isFinished: () => boolean;
+}
+
+export const createReplayPlayer = (recording: HandRecording, loop = true): ReplayPlayer => {
+  const { frames } = recording;
+  let startTime: number | null = null;
+  let cursor = 0;
+
+  return {
+    advance: (now) => {
+      if (startTime === null) startTime = now;
+      let restarted = false;
+
+      if (cursor >= frames.length && loop && frames.length > 0) {
+        startTime = now;
+        cursor = 0;
+        restarted = true;
+      }
+
+      const elapsed = now - startTime;
+      const due: HandFrame[] = [];
+      while (cursor < frames.length && frames[cursor].timestamp <= elapsed) {
+        due.push(frames[cursor]);
+        cursor++;
+      }
+      return { frames: due, restarted };
+    },
+    isFinished: () => !loop && cursor >= frames.length,
+  };
+};
+
+// Optional `?replay=<url>` query param, so demos and headless runs need no clicks
+export const getReplayUrlFromLocation = () => new URLSearchParams(window.location.search).get('replay');
+
+export const fetchRecording = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to load recording ${url}: HTTP ${response.status}`);
+  return parseRecording(await response.text());
+};
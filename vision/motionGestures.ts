@@ -0,0 +1,87 @@
+import { MotionGesture } from '../types';
+
+interface TrajectoryPoint {
+  x: number; // Screen NDC
+  y: number;
+  t: number; // ms
+}
+
+// --- Tuning (screen NDC units, -1..1 across the calibrated reach) ---
+const SWIPE_WINDOW = 350; // ms
+const SWIPE_DISTANCE = 0.7; // Horizontal travel needed inside the window
+const SWIPE_UP_DISTANCE = 0.6;
+const SWIPE_DOMINANCE = 2.0; // Main axis must beat the cross axis by this ratio
+
+const STIR_WINDOW = 1500; // ms
+const STIR_MIN_RADIUS = 0.08; // Ignore tiny wobbles around the centroid
+const STIR_ANGLE = Math.PI * 2; // One full loop
+
+const COOLDOWN = 600; // ms between motion gestures
+
+export interface MotionDetector {
+  push: (x: number, y: number, timestamp: number) => MotionGesture | null;
+  reset: () => void;
+}
+
+// Sliding-window classifier for palm motion
+export const createMotionDetector = (): MotionDetector => {
+  let points: TrajectoryPoint[] = [];
+  let lastFired = -Infinity;
+
+  const detectSwipe = (now: number): MotionGesture | null => {
+    const recent = points.filter(p => now - p.t <= SWIPE_WINDOW);
+    if (recent.length < 3) return null;
+    const first = recent[0];
+    const last = recent[recent.length - 1];
+    const dx = last.x - first.x;
+    const dy = last.y - first.y;
+
+    if (Math.abs(dx) > SWIPE_DISTANCE && Math.abs(dx) > Math.abs(dy) * SWIPE_DOMINANCE) {
+      return dx > 0 ? MotionGesture.SWIPE_RIGHT : MotionGesture.SWIPE_LEFT;
+    }
+    if (dy > SWIPE_UP_DISTANCE && dy > Math.abs(dx) * SWIPE_DOMINANCE) {
+      return MotionGesture.SWIPE_UP;
+    }
+    return null;
+  };
+
+  const detectStir = (): MotionGesture | null => {
+    if (points.length < 10) return null;
+    const cx = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+    const cy = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+
+    let totalAngle = 0;
+    let radiusSum = 0;
+    let prevAngle = Math.atan2(points[0].y - cy, points[0].x - cx);
+    for (const p of points) {
+      radiusSum += Math.hypot(p.x - cx, p.y - cy);
+      const angle = Math.atan2(p.y - cy, p.x - cx);
+      let delta = angle - prevAngle;
+      if (delta > Math.PI) delta -= Math.PI * 2;
+      if (delta < -Math.PI) delta += Math.PI * 2;
+      totalAngle += delta;
+      prevAngle = angle;
+    }
+
+    const meanRadius = radiusSum / points.length;
+    return meanRadius > STIR_MIN_RADIUS && Math.abs(totalAngle) >= STIR_ANGLE ? MotionGesture.STIR : null;
+  };
+
+  return {
+    push: (x, y, timestamp) => {
+      points.push({ x, y, t: timestamp });
+      points = points.filter(p => timestamp - p.t <= STIR_WINDOW);
+      if (timestamp - lastFired < COOLDOWN) return null;
+
+      const gesture = detectSwipe(timestamp) ?? detectStir();
+      if (gesture) {
+        lastFired = timestamp;
+        points = []; // One motion, one event
+      }
+      return gesture;
+    },
+    reset: () => {
+      points = [];
+    },
+  };
+};
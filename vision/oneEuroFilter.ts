@@ -0,0 +1,71 @@
+import { HandLandmark } from '../types';
+
+// One Euro filter (Casiez et al. 2012): a low-pass whose cutoff rises with speed,
+// so slow movement is steady and fast movement stays responsive.
+export interface OneEuroParams {
+  minCutoff: number; // Hz, jitter removal when still (lower = smoother)
+  beta: number; // Speed coefficient (higher = less lag when moving fast)
+  dCutoff: number; // Hz, cutoff for the speed estimate itself
+}
+
+export const DEFAULT_ONE_EURO: OneEuroParams = { minCutoff: 1.0, beta: 5.0, dCutoff: 1.0 };
+
+// Settings slider (0.5x..3x) scales both knobs: higher sensitivity = snappier hand
+export const smoothingFromSettings = (sensitivity: number, minCutoff: number, beta: number): OneEuroParams => ({
+  minCutoff: minCutoff * sensitivity,
+  beta: beta * sensitivity,
+  dCutoff: DEFAULT_ONE_EURO.dCutoff,
+});
+
+const smoothingAlpha = (cutoff: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+export interface OneEuroFilter {
+  filter: (value: number, timestamp: number) => number; // timestamp in ms
+  reset: () => void;
+}
+
+export const createOneEuroFilter = (getParams: () => OneEuroParams): OneEuroFilter => {
+  let prevValue: number | null = null;
+  let prevDerivative = 0;
+  let prevTime = 0;
+
+  return {
+    filter: (value, timestamp) => {
+      if (prevValue === null) {
+        prevValue = value;
+        prevTime = timestamp;
+        return value;
+      }
+      const dt = Math.max((timestamp - prevTime) / 1000, 1e-3);
+      prevTime = timestamp;
+
+      const { minCutoff, beta, dCutoff } = getParams();
+      const derivative = (value - prevValue) / dt;
+      prevDerivative += smoothingAlpha(dCutoff, dt) * (derivative - prevDerivative);
+
+      const cutoff = minCutoff + beta * Math.abs(prevDerivative);
+      prevValue += smoothingAlpha(cutoff, dt) * (value - prevValue);
+      return prevValue;
+    },
+    reset: () => {
+      prevValue = null;
+      prevDerivative = 0;
+    },
+  };
+};
+
+// One filter per landmark axis for a single hand
+export const createLandmarkFilter = (getParams: () => OneEuroParams, count = 21) => {
+  const filters = Array.from({ length: count * 3 }, () => createOneEuroFilter(getParams));
+  return {
+    filter: (landmarks: HandLandmark[], timestamp: number): HandLandmark[] => landmarks.map((p, i) => ({
+      x: filters[i * 3].filter(p.x, timestamp),
+      y: filters[i * 3 + 1].filter(p.y, timestamp),
+      z: filters[i * 3 + 2].filter(p.z, timestamp),
+    })),
+    reset: () => filters.forEach(f => f.reset()),
+  };
+};
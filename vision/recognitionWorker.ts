@@ -0,0 +1,75 @@
+/// <reference lib="webworker" />
+// Hand recognition off the render thread. The main thread posts ImageBitmap frames;
+// landmarks come back as HandFrames and go through the usual processor there.
+import { GestureRecognizer } from '@mediapipe/tasks-vision';
+import { HandFrame, VisionDelegate } from '../types';
+import { createGestureRecognizer, describeVisionError, loadVisionFileset } from './visionAssets';
+import { toHandFrame } from './handFrame';
+
+export type RecognitionRequest =
+  | { type: 'init'; numHands: number }
+  | { type: 'frame'; bitmap: ImageBitmap; timestamp: number };
+
+export type RecognitionResponse =
+  | { type: 'ready'; delegate: VisionDelegate }
+  | { type: 'fallback' } // GPU failed, CPU retry in progress
+  | { type: 'error'; message: string }
+  | { type: 'frame'; frame: HandFrame };
+
+const scope = self as unknown as DedicatedWorkerGlobalScope;
+
+// Built as a classic worker (worker.format 'iife'), so MediaPipe's own importScripts loads
+// its wasm glue. The Vite dev server only serves module workers, where importScripts throws:
+// there the glue is imported as a module up front and importScripts hands its factory back.
+type ModuleFactoryScope = DedicatedWorkerGlobalScope & { ModuleFactory?: unknown };
+
+const preloadWasmGlueForDev = async () => {
+  const { wasmLoaderPath } = await loadVisionFileset();
+  const response = await fetch(wasmLoaderPath);
+  if (!response.ok) throw new Error(`Failed to load ${wasmLoaderPath} (HTTP ${response.status})`);
+  const source = `${await response.text()}\nexport default ModuleFactory;`;
+  const url = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+  try {
+    const { default: factory } = await import(/* @vite-ignore */ url);
+    // MediaPipe clears ModuleFactory after each use; the GPU -> CPU retry loads it again
+    scope.importScripts = () => { (scope as ModuleFactoryScope).ModuleFactory = factory; };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+let recognizer: GestureRecognizer | null = null;
+
+const post = (message: RecognitionResponse) => scope.postMessage(message);
+
+const init = async (numHands: number) => {
+  try {
+    if (import.meta.env.DEV) await preloadWasmGlueForDev();
+    const { task, delegate } = await createGestureRecognizer(numHands, () => post({ type: 'fallback' }));
+    recognizer = task;
+    post({ type: 'ready', delegate });
+  } catch (e) {
+    console.error("Failed to load MediaPipe in worker:", e);
+    post({ type: 'error', message: describeVisionError(e) });
+  }
+};
+
+scope.onmessage = (event: MessageEvent<RecognitionRequest>) => {
+  const message = event.data;
+  if (message.type === 'init') {
+    init(message.numHands);
+    return;
+  }
+
+  // Always answer a frame so the sender's in-flight flag clears
+  const { bitmap, timestamp } = message;
+  let frame: HandFrame = { timestamp, hands: [] };
+  try {
+    if (recognizer) frame = toHandFrame(recognizer.recognizeForVideo(bitmap, timestamp), timestamp);
+  } catch (e) {
+    console.error("Hand recognition failed:", e);
+  } finally {
+    bitmap.close();
+  }
+  post({ type: 'frame', frame });
+};
@@ -0,0 +1,82 @@
+import { FaceLandmarker, FilesetResolver, GestureRecognizer } from '@mediapipe/tasks-vision';
+import { VisionDelegate } from '../types';
+
+// Overrides are injected by vite.config.ts; the defaults are the copies in public/mediapipe,
+// under the app's base path so a build deployed to a sub-directory still finds them
+const MEDIAPIPE_BASE = `${import.meta.env.BASE_URL}mediapipe`;
+export const VISION_WASM_PATH = process.env.VISION_WASM_PATH || `${MEDIAPIPE_BASE}/wasm`;
+export const GESTURE_MODEL_PATH = process.env.GESTURE_MODEL_PATH || `${MEDIAPIPE_BASE}/models/gesture_recognizer.task`;
+export const FACE_MODEL_PATH = process.env.FACE_MODEL_PATH || `${MEDIAPIPE_BASE}/models/face_landmarker.task`;
+
+type WasmFileset = Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>;
+
+// One wasm runtime lookup shared by every vision task
+let filesetPromise: Promise<WasmFileset> | null = null;
+
+export const loadVisionFileset = () => {
+  if (!filesetPromise) {
+    filesetPromise = FilesetResolver.forVisionTasks(VISION_WASM_PATH).catch((e) => {
+      filesetPromise = null; // Allow a later retry
+      throw e;
+    });
+  }
+  return filesetPromise;
+};
+
+export interface DelegatedTask<T> {
+  task: T;
+  delegate: VisionDelegate;
+}
+
+// Try the GPU delegate first; machines without usable WebGL get a CPU retry.
+export const createWithDelegateFallback = async <T>(
+  create: (delegate: VisionDelegate) => Promise<T>,
+  onFallback?: (error: unknown) => void
+): Promise<DelegatedTask<T>> => {
+  try {
+    return { task: await create('GPU'), delegate: 'GPU' };
+  } catch (gpuError) {
+    console.warn("GPU delegate failed, retrying on CPU:", gpuError);
+    onFallback?.(gpuError);
+    return { task: await create('CPU'), delegate: 'CPU' };
+  }
+};
+
+export const createGestureRecognizer = async (
+  numHands: number,
+  onFallback?: (error: unknown) => void
+): Promise<DelegatedTask<GestureRecognizer>> => {
+  const fileset = await loadVisionFileset();
+  return createWithDelegateFallback((delegate) => GestureRecognizer.createFromOptions(fileset, {
+    baseOptions: {
+      modelAssetPath: GESTURE_MODEL_PATH,
+      delegate
+    },
+    runningMode: "VIDEO",
+    numHands
+  }), onFallback);
+};
+
+// Single face is enough for head parallax: the nearest viewer drives the camera
+export const createFaceLandmarker = async (
+  onFallback?: (error: unknown) => void
+): Promise<DelegatedTask<FaceLandmarker>> => {
+  const fileset = await loadVisionFileset();
+  return createWithDelegateFallback((delegate) => FaceLandmarker.createFromOptions(fileset, {
+    baseOptions: {
+      modelAssetPath: FACE_MODEL_PATH,
+      delegate
+    },
+    runningMode: "VIDEO",
+    numFaces: 1
+  }), onFallback);
+};
+
+// Human readable reason for the vision panel
+export const describeVisionError = (e: unknown) => {
+  const message = e instanceof Error ? e.message : String(e);
+  if (/fetch|404|Failed to load|NetworkError/i.test(message)) {
+    return 'Vision model files not found';
+  }
+  return message;
+};
@@ -10,9 +10,17 @@ export default defineConfig(({ mode }) => {
         host: '0.0.0.0',
       },
       plugins: [react()],
+      worker: {
+        // Classic workers keep importScripts, which MediaPipe uses to load its wasm glue
+        format: 'iife',
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // Optional overrides for the MediaPipe assets; empty means the copies in public/mediapipe (see vision/visionAssets.ts)
+        'process.env.VISION_WASM_PATH': JSON.stringify(env.VISION_WASM_PATH || ''),
+        'process.env.GESTURE_MODEL_PATH': JSON.stringify(env.GESTURE_MODEL_PATH || ''),
+        'process.env.FACE_MODEL_PATH': JSON.stringify(env.FACE_MODEL_PATH || '')
       },
       resolve: {
         alias: {